@@ -150,6 +150,7 @@ class Dashboard {
     updateGridFromAPI(gridData) {
         const gridState = {
             id: gridData.id || gridData.gridId,
+            name: gridData.info?.name || gridData.name,
             config: gridData.info?.config || gridData.config,
             data: gridData.state?.data || gridData.webState?.data || [],
             createdAt: gridData.info?.createdAt || gridData.createdAt,
@@ -205,7 +206,7 @@ class Dashboard {
         const sortIndicator = gridCard.querySelector('.sort-indicator');
 
         // Update content
-        title.textContent = `Grid ${gridState.id.split('_')[1]}` || gridState.id;
+        title.textContent = gridState.name || `Grid ${gridState.id.split('_')[1]}` || gridState.id;
         columns.textContent = gridState.config?.columnDefs?.length || '-';
         rows.textContent = gridState.data?.length || '-';
         created.textContent = this.formatDate(gridState.createdAt);
@@ -291,6 +292,18 @@ class Dashboard {
                 return `${event.data.displayedRows} rows shown`;
             case 'grid_exported':
                 return `Exported as ${event.data.format}`;
+            case 'grid_recovered':
+                return `Rebuilt after ${event.data.reason.replace(/_/g, ' ')}`;
+            case 'grid_columns_changed':
+                return `${event.data.columnCount} columns`;
+            case 'grid_renamed':
+                return `Renamed to ${event.data.name}`;
+            case 'grid_views_changed':
+                return `${event.data.views.length} saved views`;
+            case 'grid_formatting_changed':
+                return `${event.data.ruleCount} formatting rules`;
+            case 'grid_history':
+                return `${event.data.action === 'undo' ? 'Undid' : 'Redid'}: ${event.data.description}`;
             default:
                 return JSON.stringify(event.data);
         }
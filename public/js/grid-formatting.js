@@ -0,0 +1,135 @@
+/**
+ * Conditional formatting shared by the headless grid page (web/grid.html)
+ * and the grid viewer (see src/grid-formatting.ts for the rules)
+ */
+
+window.GridFormatting = (function() {
+    /**
+     * Reads a field of a row; like AG Grid, dotted fields are paths into
+     * nested objects unless the row has a key with the dots in it
+     * @param {Object} data - Row data
+     * @param {string} field - Field name
+     * @returns {*} The cell value
+     */
+    function getFieldValue(data, field) {
+        if (!data) {
+            return undefined;
+        }
+        if (field in data || !field.includes('.')) {
+            return data[field];
+        }
+        return field.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data);
+    }
+
+    /**
+     * Tests a formatting condition against a row, with the semantics of AG Grid's filters
+     * @param {Object} condition - Condition { field, op, value, valueTo }
+     * @param {Object} data - Row data
+     * @returns {boolean} Whether the condition matches
+     */
+    function matchesCondition(condition, data) {
+        const cell = getFieldValue(data, condition.field);
+        const blank = cell === null || cell === undefined || cell === '';
+        if (condition.op === 'blank' || condition.op === 'notBlank') {
+            return blank === (condition.op === 'blank');
+        }
+        if (blank) {
+            return condition.op === 'ne' || condition.op === 'notContains';
+        }
+
+        // Dates are compared by day, other text case-insensitively, numbers and booleans by value
+        const isDate = value => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value);
+        const byDay = isDate(condition.value);
+        const normalize = value => byDay && isDate(value)
+            ? value.slice(0, 10)
+            : typeof value === 'string' ? value.toLowerCase() : value;
+        const actual = normalize(cell);
+        const expected = normalize(condition.value);
+        switch (condition.op) {
+            case 'eq': return actual === expected;
+            case 'ne': return actual !== expected;
+            case 'lt': return actual < expected;
+            case 'lte': return actual <= expected;
+            case 'gt': return actual > expected;
+            case 'gte': return actual >= expected;
+            case 'between': return actual > expected && actual < normalize(condition.valueTo);
+            case 'contains': return String(actual).includes(String(expected));
+            case 'notContains': return !String(actual).includes(String(expected));
+            case 'startsWith': return String(actual).startsWith(String(expected));
+            case 'endsWith': return String(actual).endsWith(String(expected));
+            default: return false;
+        }
+    }
+
+    /**
+     * Builds AG Grid class rules from formatting rules; rules sharing a class are combined
+     * @param {Array} rules - All formatting rules of the grid
+     * @param {string} scope - 'row' for row class rules, or the field of a column for its cell class rules
+     * @returns {Object} Class rules keyed by class name
+     */
+    function buildClassRules(rules, scope) {
+        const conditions = {};
+        rules.forEach((rule, index) => {
+            if ((rule.scope === 'row') !== (scope === 'row')) return;
+            if (scope !== 'row' && rule.condition.field !== scope) return;
+            const className = rule.preset ? `cf-${rule.preset}` : `cf-rule-${index}`;
+            (conditions[className] = conditions[className] || []).push(rule.condition);
+        });
+
+        const classRules = {};
+        for (const [className, classConditions] of Object.entries(conditions)) {
+            classRules[className] = params => classConditions.some(condition => matchesCondition(condition, params.data));
+        }
+        return classRules;
+    }
+
+    /**
+     * Replaces the stylesheet holding the classes of rules with a custom style
+     * @param {Array} rules - All formatting rules of the grid
+     */
+    function installStyles(rules) {
+        document.getElementById('formatting-styles')?.remove();
+
+        const styleElement = document.createElement('style');
+        styleElement.id = 'formatting-styles';
+        document.head.appendChild(styleElement);
+
+        rules.forEach((rule, index) => {
+            if (!rule.style) return;
+            // Set properties through the CSSOM so values cannot inject other rules
+            const ruleIndex = styleElement.sheet.insertRule(`.ag-row.cf-rule-${index}, .ag-cell.cf-rule-${index} {}`, styleElement.sheet.cssRules.length);
+            const cssRule = styleElement.sheet.cssRules[ruleIndex];
+            for (const [property, value] of Object.entries(rule.style)) {
+                cssRule.style[property] = value;
+            }
+        });
+    }
+
+    /**
+     * Wraps adjacent columns sharing a headerGroup into AG Grid column groups
+     * and attaches the class rules of cell-scoped formatting rules
+     * @param {Array} columnDefs - Flat column definitions
+     * @param {Array} rules - All formatting rules of the grid
+     * @returns {Array} Column definitions with column groups
+     */
+    function buildColumnDefs(columnDefs, rules) {
+        const result = [];
+        for (const { headerGroup, ...columnDef } of columnDefs || []) {
+            const cellClassRules = buildClassRules(rules, columnDef.field);
+            const col = Object.keys(cellClassRules).length > 0
+                ? { ...columnDef, cellClassRules: { ...columnDef.cellClassRules, ...cellClassRules } }
+                : columnDef;
+            const previous = result[result.length - 1];
+            if (!headerGroup) {
+                result.push(col);
+            } else if (previous && previous.children && previous.headerName === headerGroup) {
+                previous.children.push(col);
+            } else {
+                result.push({ headerName: headerGroup, children: [col] });
+            }
+        }
+        return result;
+    }
+
+    return { getFieldValue, matchesCondition, buildClassRules, installStyles, buildColumnDefs };
+})();
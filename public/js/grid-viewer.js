@@ -27,6 +27,9 @@ class GridViewer {
         this.gridApi = null;
         this.gridOptions = null;
         this.gridId = null;
+        this.views = [];
+        this.columnDefs = [];
+        this.formattingRules = [];
         this.events = [];
         this.maxEvents = 20;
         
@@ -54,6 +57,18 @@ class GridViewer {
         document.getElementById('grid-title').textContent = `Grid ${this.gridId.split('_')[1] || this.gridId}`;
     }
 
+    applyGridIdentity(gridData) {
+        // The URL may use the grid name; events are always sent with the grid ID
+        if (gridData.gridId) {
+            this.gridId = gridData.gridId;
+        }
+
+        document.getElementById('current-grid-id').textContent = this.gridId;
+        if (gridData.name) {
+            document.getElementById('grid-title').textContent = gridData.name;
+        }
+    }
+
     setupSocketConnection() {
         this.socket = io();
         
@@ -122,6 +137,11 @@ class GridViewer {
             }
         });
 
+        // Saved views dropdown
+        document.getElementById('view-select').addEventListener('change', (event) => {
+            this.applyView(event.target.value);
+        });
+
         // Clear filters button
         document.getElementById('clear-filters').addEventListener('click', () => {
             if (this.gridApi) {
@@ -149,7 +169,9 @@ class GridViewer {
             }
             
             const gridData = await response.json();
+            this.applyGridIdentity(gridData);
             this.createGrid(gridData);
+            this.updateViews(gridData.views || []);
             this.hideLoading();
             
         } catch (error) {
@@ -158,6 +180,21 @@ class GridViewer {
         }
     }
 
+    setFormattingRules(rules) {
+        this.formattingRules = rules || [];
+        GridFormatting.installStyles(this.formattingRules);
+    }
+
+    // Wrap adjacent columns sharing a headerGroup into AG Grid column groups,
+    // attaching the class rules of cell-scoped formatting rules
+    buildColumnDefs(columnDefs) {
+        return GridFormatting.buildColumnDefs(columnDefs, this.formattingRules);
+    }
+
+    buildRowClassRules() {
+        return GridFormatting.buildClassRules(this.formattingRules, 'row');
+    }
+
     createGrid(gridData) {
         const container = document.getElementById('grid-container');
         
@@ -167,10 +204,14 @@ class GridViewer {
             this.gridApi = null;
         }
 
+        this.columnDefs = gridData.columnDefs || [];
+        this.setFormattingRules(gridData.formattingRules);
+
         // Configure grid options
         this.gridOptions = {
-            columnDefs: gridData.columnDefs,
+            columnDefs: this.buildColumnDefs(gridData.columnDefs),
             rowData: gridData.rowData,
+            rowClassRules: this.buildRowClassRules(),
             defaultColDef: {
                 sortable: true,
                 filter: true,
@@ -185,6 +226,11 @@ class GridViewer {
             animateRows: true,
             ...gridData.gridOptions,
             
+            // Key rows by a stable ID so updates keep selection and scroll position
+            ...(gridData.rowIdField ? {
+                getRowId: (params) => String(params.data[gridData.rowIdField])
+            } : {}),
+            
             // Event handlers
             onGridReady: (params) => {
                 this.gridApi = params.api;
@@ -218,7 +264,7 @@ class GridViewer {
         }
 
         // Update existing grid
-        this.gridApi.setRowData(gridState.data);
+        this.gridApi.setGridOption('rowData', gridState.data);
         
         // Apply filters if they exist
         if (gridState.filters) {
@@ -243,7 +289,9 @@ class GridViewer {
         const gridData = {
             columnDefs: gridState.config?.columnDefs || [],
             rowData: gridState.data || [],
-            gridOptions: gridState.config?.gridOptions || {}
+            gridOptions: gridState.config?.gridOptions || {},
+            rowIdField: gridState.config?.rowIdField,
+            formattingRules: gridState.config?.formattingRules || []
         };
         
         this.createGrid(gridData);
@@ -271,9 +319,69 @@ class GridViewer {
                     });
                 }
                 break;
+
+            case 'grid_renamed':
+                if (event.data && event.data.name) {
+                    document.getElementById('grid-title').textContent = event.data.name;
+                }
+                break;
+
+            case 'grid_views_changed':
+                if (event.data && event.data.views) {
+                    this.updateViews(event.data.views);
+                }
+                break;
+
+            case 'grid_formatting_changed':
+                if (event.data && event.data.rules) {
+                    this.setFormattingRules(event.data.rules);
+                    this.gridApi?.setGridOption('columnDefs', this.buildColumnDefs(this.columnDefs));
+                    this.gridApi?.setGridOption('rowClassRules', this.buildRowClassRules());
+                    this.gridApi?.redrawRows();
+                }
+                break;
+
+            case 'grid_columns_changed':
+                if (event.data && event.data.columnDefs) {
+                    this.columnDefs = event.data.columnDefs;
+                    this.gridApi?.setGridOption('columnDefs', this.buildColumnDefs(event.data.columnDefs));
+                    document.getElementById('column-count').textContent = `Columns: ${event.data.columnCount}`;
+                }
+                break;
         }
     }
 
+    updateViews(views) {
+        this.views = views;
+
+        const select = document.getElementById('view-select');
+        const selected = select.value;
+        select.innerHTML = '<option value="">Saved views</option>';
+
+        views.forEach(view => {
+            const option = document.createElement('option');
+            option.value = view.name;
+            option.textContent = view.name;
+            option.title = view.description || '';
+            select.appendChild(option);
+        });
+
+        select.value = views.some(view => view.name === selected) ? selected : '';
+        select.style.display = views.length > 0 ? 'inline-block' : 'none';
+    }
+
+    applyView(name) {
+        const view = this.views.find(candidate => candidate.name === name);
+        if (!view || !this.gridApi) return;
+
+        // Widths are left out since they were measured in the headless browser
+        this.gridApi.applyColumnState({
+            state: view.state.columnState.map(({ width, flex, ...column }) => column),
+            applyOrder: true
+        });
+        this.gridApi.setFilterModel(view.state.filterModel || null);
+    }
+
     updateStats(gridData) {
         const rowCount = gridData.rowData?.length || 0;
         const columnCount = gridData.columnDefs?.length || 0;
@@ -397,11 +505,27 @@ class GridViewer {
         
         switch (event.type) {
             case 'grid_updated':
+                if (event.data.transaction) {
+                    const { added, updated, removed } = event.data.transaction;
+                    return `+${added} ~${updated} -${removed}, ${event.data.rowCount} rows`;
+                }
                 return `Updated to ${event.data.rowCount} rows`;
             case 'grid_filtered':
                 return `${event.data.displayedRows} rows visible`;
             case 'grid_exported':
                 return `Exported as ${event.data.format}`;
+            case 'grid_recovered':
+                return `Rebuilt after ${event.data.reason.replace(/_/g, ' ')}`;
+            case 'grid_columns_changed':
+                return `${event.data.columnCount} columns`;
+            case 'grid_renamed':
+                return `Renamed to ${event.data.name}`;
+            case 'grid_views_changed':
+                return `${event.data.views.length} saved views`;
+            case 'grid_formatting_changed':
+                return `${event.data.ruleCount} formatting rules`;
+            case 'grid_history':
+                return `${event.data.action === 'undo' ? 'Undid' : 'Redid'}: ${event.data.description}`;
             default:
                 return JSON.stringify(event.data);
         }
@@ -0,0 +1,111 @@
+/**
+ * On-disk store for grid exports
+ *
+ * Export files are written to `<directory>/<gridId>/<filename>` so that the
+ * web server can serve them as downloads instead of inlining large payloads
+ * in MCP tool responses.
+ */
+
+import { mkdir, rm, stat, writeFile } from 'fs/promises';
+import { basename, extname, join, resolve, sep } from 'path';
+import { tmpdir } from 'os';
+import type { ExportResult } from '../grid-manager.js';
+
+export interface StoredExport {
+  gridId: string;
+  filename: string;
+  path: string;
+  size: number;
+  mimeType: string;
+  createdAt: string;
+}
+
+/**
+ * Default export directory when none is configured
+ */
+export const DEFAULT_EXPORT_DIR = join(tmpdir(), 'ag-grid-mcp-exports');
+
+/**
+ * Strip directory components and unsafe characters from a file or grid name
+ */
+function sanitizePathSegment(name: string): string {
+  return basename(name)
+    .replace(/[^a-zA-Z0-9._-]/g, '_')
+    .replace(/^\.+/, '');
+}
+
+export class ExportStore {
+  private directory: string;
+
+  constructor(directory: string = DEFAULT_EXPORT_DIR) {
+    this.directory = resolve(directory);
+  }
+
+  /**
+   * Get the root directory exports are written to
+   */
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Write an export result to disk
+   * @param gridId - Grid the export belongs to
+   * @param result - Export result to write
+   * @param filename - Requested filename; the format's extension is added when missing
+   */
+  async save(gridId: string, result: ExportResult, filename?: string): Promise<StoredExport> {
+    const expectedExtension = extname(result.filename);
+    let targetName = sanitizePathSegment(filename || result.filename);
+    if (!targetName) {
+      targetName = sanitizePathSegment(result.filename);
+    }
+    if (extname(targetName).toLowerCase() !== expectedExtension.toLowerCase()) {
+      targetName += expectedExtension;
+    }
+
+    const gridDirectory = join(this.directory, sanitizePathSegment(gridId));
+    await mkdir(gridDirectory, { recursive: true });
+
+    const path = join(gridDirectory, targetName);
+    const content = Buffer.from(result.data, result.encoding);
+    await writeFile(path, content);
+
+    return {
+      gridId,
+      filename: targetName,
+      path,
+      size: content.length,
+      mimeType: result.mimeType,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Delete all exports of a grid
+   */
+  async removeGrid(gridId: string): Promise<void> {
+    await rm(join(this.directory, sanitizePathSegment(gridId)), { recursive: true, force: true });
+  }
+
+  /**
+   * Resolve the path of a stored export, or null if it does not exist
+   */
+  async resolve(gridId: string, filename: string): Promise<string | null> {
+    const path = join(this.directory, sanitizePathSegment(gridId), sanitizePathSegment(filename));
+
+    // Never serve anything outside the export directory
+    if (!path.startsWith(this.directory + sep)) {
+      return null;
+    }
+
+    try {
+      const stats = await stat(path);
+      return stats.isFile() ? path : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export default ExportStore;
@@ -0,0 +1,146 @@
+/**
+ * Print-styled report markup for PDF grid exports
+ *
+ * The report is injected into the grid's own headless page and printed with
+ * `page.pdf`, so it only needs markup and print CSS. Table headers repeat on
+ * every page because Chromium repeats `thead` rows when a table breaks.
+ */
+
+import type { ExportDataset } from '../grid-manager.js';
+
+export interface PdfReportOptions {
+  title: string;
+  subtitle?: string;
+  filterModel?: Record<string, any>;
+  sortState?: Array<{ colId: string; sort: string; sortIndex?: number }>;
+}
+
+/**
+ * Id of the report element injected into the grid page
+ */
+export const PDF_REPORT_ELEMENT_ID = 'pdfReport';
+
+function escapeHtml(value: any): string {
+  const text = value === null || value === undefined
+    ? ''
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Describe a single column filter from an AG Grid filter model
+ */
+function describeColumnFilter(field: string, filter: any): string {
+  if (filter.conditions && Array.isArray(filter.conditions)) {
+    const joined = filter.conditions
+      .map((condition: any) => describeColumnFilter(field, condition))
+      .join(` ${filter.operator || 'AND'} `);
+    return `(${joined})`;
+  }
+
+  if (filter.filterType === 'set' && Array.isArray(filter.values)) {
+    return `${field} in [${filter.values.join(', ')}]`;
+  }
+
+  if (filter.type === 'inRange') {
+    const from = filter.dateFrom ?? filter.filter;
+    const to = filter.dateTo ?? filter.filterTo;
+    return `${field} between ${from} and ${to}`;
+  }
+
+  const value = filter.dateFrom ?? filter.filter;
+  return value === undefined || value === null
+    ? `${field} ${filter.type}`
+    : `${field} ${filter.type} "${value}"`;
+}
+
+/**
+ * Summarise the active filters for the report footer
+ */
+export function describeFilters(filterModel: Record<string, any> = {}): string {
+  const entries = Object.entries(filterModel);
+  if (entries.length === 0) {
+    return 'No filters';
+  }
+  return entries.map(([field, filter]) => describeColumnFilter(field, filter)).join('; ');
+}
+
+/**
+ * Summarise the active sort for the report footer
+ */
+export function describeSort(sortState: PdfReportOptions['sortState'] = []): string {
+  if (sortState.length === 0) {
+    return 'No sorting';
+  }
+  return sortState.map(sort => `${sort.colId} ${sort.sort}`).join(', ');
+}
+
+/**
+ * Build the report element (styles included) to inject into the grid page
+ */
+export function buildPdfReportHtml(dataset: ExportDataset, options: PdfReportOptions): string {
+  const headerCells = dataset.columns
+    .map(column => `<th>${escapeHtml(column.headerName)}</th>`)
+    .join('');
+  const bodyRows = dataset.rows
+    .map(row => {
+      const cells = dataset.columns
+        .map(column => {
+          const value = row[column.field];
+          const align = typeof value === 'number' ? ' class="num"' : '';
+          return `<td${align}>${escapeHtml(value)}</td>`;
+        })
+        .join('');
+      return `<tr>${cells}</tr>`;
+    })
+    .join('');
+
+  const subtitle = options.subtitle
+    ? `<p class="report-subtitle">${escapeHtml(options.subtitle)}</p>`
+    : '';
+
+  return `
+<div id="${PDF_REPORT_ELEMENT_ID}">
+  <style>
+    @media print {
+      body { margin: 0; padding: 0; background: white; }
+      body > *:not(#${PDF_REPORT_ELEMENT_ID}) { display: none !important; }
+    }
+    #${PDF_REPORT_ELEMENT_ID} { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #222; }
+    #${PDF_REPORT_ELEMENT_ID} .report-title { font-size: 18px; margin: 0 0 4px 0; }
+    #${PDF_REPORT_ELEMENT_ID} .report-subtitle { font-size: 12px; color: #555; margin: 0 0 4px 0; }
+    #${PDF_REPORT_ELEMENT_ID} .report-meta { font-size: 10px; color: #777; margin: 0 0 12px 0; }
+    #${PDF_REPORT_ELEMENT_ID} table { width: 100%; border-collapse: collapse; font-size: 9px; }
+    #${PDF_REPORT_ELEMENT_ID} thead { display: table-header-group; }
+    #${PDF_REPORT_ELEMENT_ID} tr { page-break-inside: avoid; }
+    #${PDF_REPORT_ELEMENT_ID} th, #${PDF_REPORT_ELEMENT_ID} td { border: 1px solid #ccc; padding: 3px 6px; text-align: left; }
+    #${PDF_REPORT_ELEMENT_ID} th { background-color: #eee; font-weight: 600; }
+    #${PDF_REPORT_ELEMENT_ID} td.num { text-align: right; }
+    #${PDF_REPORT_ELEMENT_ID} tbody tr:nth-child(even) { background-color: #fafafa; }
+  </style>
+  <h1 class="report-title">${escapeHtml(options.title)}</h1>
+  ${subtitle}
+  <p class="report-meta">${dataset.rows.length} rows &middot; generated ${escapeHtml(new Date().toISOString())}</p>
+  <table>
+    <thead><tr>${headerCells}</tr></thead>
+    <tbody>${bodyRows}</tbody>
+  </table>
+</div>`;
+}
+
+/**
+ * Build the page footer template with active filters, sort and page numbers
+ */
+export function buildPdfFooterTemplate(options: PdfReportOptions): string {
+  return `
+<div style="width: 100%; font-size: 8px; color: #777; padding: 0 10mm; display: flex; justify-content: space-between; font-family: sans-serif;">
+  <span>Filters: ${escapeHtml(describeFilters(options.filterModel))} &middot; Sort: ${escapeHtml(describeSort(options.sortState))}</span>
+  <span>Page <span class="pageNumber"></span> of <span class="totalPages"></span></span>
+</div>`;
+}
@@ -0,0 +1,138 @@
+/**
+ * Text-based export formats for grid data
+ *
+ * Each formatter receives the displayed columns (in display order) and the
+ * filtered, sorted rows of a grid and renders them as a single string.
+ */
+
+import type { ExportColumn, ExportDataset } from '../grid-manager.js';
+
+// AG Grid column types that right-align a column
+const NUMERIC_COLUMN_TYPES = new Set(['numericColumn', 'rightAligned']);
+
+/**
+ * Project rows onto the exported columns so that keys follow column order
+ */
+function projectRows(dataset: ExportDataset): Record<string, any>[] {
+  return dataset.rows.map(row => {
+    const projected: Record<string, any> = {};
+    for (const column of dataset.columns) {
+      projected[column.field] = row[column.field] ?? null;
+    }
+    return projected;
+  });
+}
+
+function stringifyValue(value: any): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function escapeMarkdownCell(value: any): string {
+  return stringifyValue(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/\|/g, '\\|')
+    .replace(/\r?\n/g, '<br>');
+}
+
+function escapeHtml(value: any): string {
+  return stringifyValue(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Whether a column holds numbers: declared as numeric, or with only numeric values
+ */
+function isNumericColumn(dataset: ExportDataset, column: ExportColumn): boolean {
+  if (column.cellDataType === 'number' || (column.type && NUMERIC_COLUMN_TYPES.has(column.type))) {
+    return true;
+  }
+  const values = dataset.rows
+    .map(row => row[column.field])
+    .filter(value => value !== null && value !== undefined && value !== '');
+  return values.length > 0 && values.every(value => typeof value === 'number');
+}
+
+/**
+ * JSON array of objects keyed by field
+ */
+export function formatJson(dataset: ExportDataset): string {
+  return JSON.stringify(projectRows(dataset), null, 2);
+}
+
+/**
+ * Newline-delimited JSON, one object per row
+ */
+export function formatNdjson(dataset: ExportDataset): string {
+  return projectRows(dataset).map(row => JSON.stringify(row)).join('\n');
+}
+
+/**
+ * GitHub-flavoured Markdown table
+ */
+export function formatMarkdown(dataset: ExportDataset): string {
+  const header = `| ${dataset.columns.map(column => escapeMarkdownCell(column.headerName)).join(' | ')} |`;
+  const separator = `| ${dataset.columns.map(column => (isNumericColumn(dataset, column) ? '---:' : '---')).join(' | ')} |`;
+  const body = dataset.rows.map(row =>
+    `| ${dataset.columns.map(column => escapeMarkdownCell(row[column.field])).join(' | ')} |`
+  );
+
+  return [header, separator, ...body].join('\n');
+}
+
+/**
+ * Standalone HTML document containing a single table
+ */
+export function formatHtml(dataset: ExportDataset, title = 'Grid Export'): string {
+  const headerCells = dataset.columns
+    .map(column => `<th>${escapeHtml(column.headerName)}</th>`)
+    .join('');
+  const bodyRows = dataset.rows
+    .map(row => {
+      const cells = dataset.columns
+        .map(column => {
+          const value = row[column.field];
+          const align = typeof value === 'number' ? ' class="num"' : '';
+          return `<td${align}>${escapeHtml(value)}</td>`;
+        })
+        .join('');
+      return `      <tr>${cells}</tr>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 20px; }
+    table { border-collapse: collapse; font-size: 13px; }
+    th, td { border: 1px solid #ddd; padding: 6px 10px; text-align: left; }
+    th { background-color: #f5f5f5; font-weight: 600; }
+    td.num { text-align: right; }
+    tbody tr:nth-child(even) { background-color: #fafafa; }
+  </style>
+</head>
+<body>
+  <table>
+    <thead>
+      <tr>${headerCells}</tr>
+    </thead>
+    <tbody>
+${bodyRows}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
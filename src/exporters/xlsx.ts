@@ -0,0 +1,95 @@
+/**
+ * Office Open XML (.xlsx) workbook builder for grid exports
+ *
+ * Turns the displayed columns and rows of a grid into a single-sheet workbook
+ * with typed cells, a bold header row, column widths and a frozen header pane.
+ */
+
+import ExcelJS from 'exceljs';
+import type { ExportColumn, ExportDataset } from '../grid-manager.js';
+
+/**
+ * Approximate pixel width of one Excel character unit
+ */
+const PIXELS_PER_CHARACTER = 7;
+
+const DEFAULT_COLUMN_WIDTH = 15;
+const DATE_FORMAT = 'yyyy-mm-dd';
+const DATE_TIME_FORMAT = 'yyyy-mm-dd hh:mm:ss';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/;
+
+/**
+ * Convert a raw grid value into a typed Excel cell value
+ */
+function toCellValue(value: any, column: ExportColumn): ExcelJS.CellValue {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+
+  if (typeof value === 'boolean' || value instanceof Date) {
+    return value;
+  }
+
+  if (typeof value === 'string') {
+    const looksLikeDate = ISO_DATE_PATTERN.test(value) || ISO_DATE_TIME_PATTERN.test(value);
+    if (looksLikeDate || (column.type === 'date' && !isNaN(Date.parse(value)))) {
+      const date = new Date(value);
+      if (!isNaN(date.getTime())) {
+        return date;
+      }
+    }
+    return value;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Build an .xlsx workbook for the given export dataset
+ * @param dataset - Columns (in display order) and rows to write
+ * @param sheetName - Name of the worksheet
+ * @returns The workbook as a binary buffer
+ */
+export async function buildXlsxWorkbook(dataset: ExportDataset, sheetName = 'Grid Export'): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'AG Grid MCP Server';
+  workbook.created = new Date();
+
+  const worksheet = workbook.addWorksheet(sheetName, {
+    views: [{ state: 'frozen', xSplit: 0, ySplit: 1 }],
+  });
+
+  worksheet.columns = dataset.columns.map(column => ({
+    header: column.headerName,
+    key: column.field,
+    width: column.width
+      ? Math.max(Math.round(column.width / PIXELS_PER_CHARACTER), 8)
+      : DEFAULT_COLUMN_WIDTH,
+  }));
+
+  worksheet.getRow(1).font = { bold: true };
+
+  for (const row of dataset.rows) {
+    const values: Record<string, ExcelJS.CellValue> = {};
+    for (const column of dataset.columns) {
+      values[column.field] = toCellValue(row[column.field], column);
+    }
+
+    const excelRow = worksheet.addRow(values);
+    excelRow.eachCell(cell => {
+      if (cell.value instanceof Date) {
+        const hasTime = cell.value.getUTCHours() !== 0 || cell.value.getUTCMinutes() !== 0 || cell.value.getUTCSeconds() !== 0;
+        cell.numFmt = hasTime ? DATE_TIME_FORMAT : DATE_FORMAT;
+      }
+    });
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer);
+}
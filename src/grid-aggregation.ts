@@ -0,0 +1,173 @@
+/**
+ * Group-by aggregation over grid rows
+ *
+ * AG Grid Community has no row grouping, so groups and aggregates are
+ * computed here from the rows a grid displays. Each group becomes one result
+ * row holding the group-by values and one column per aggregation. Values
+ * are read and ordered as the grid reads and sorts them.
+ */
+
+import { compareLikeGrid, getFieldValue, isEmptyValue } from './grid-values.js';
+
+export const AGGREGATE_FUNCTIONS = ['sum', 'avg', 'min', 'max', 'count', 'countDistinct', 'median'] as const;
+
+export type AggregateFunction = typeof AGGREGATE_FUNCTIONS[number];
+
+export interface AggregationSpec {
+  fn: AggregateFunction;
+  /** Field to aggregate; may be omitted for `count` to count rows */
+  field?: string;
+  /** Name of the result column (defaults to e.g. `sum_amount`) */
+  as?: string;
+}
+
+const FUNCTION_LABELS: Record<AggregateFunction, string> = {
+  sum: 'Sum',
+  avg: 'Average',
+  min: 'Min',
+  max: 'Max',
+  count: 'Count',
+  countDistinct: 'Distinct',
+  median: 'Median',
+};
+
+// Functions that only make sense on numbers; other values are skipped
+const NUMERIC_FUNCTIONS = new Set<AggregateFunction>(['sum', 'avg', 'median']);
+
+/**
+ * Name of the result column of an aggregation
+ */
+export function getAggregationColumn(spec: AggregationSpec): string {
+  return spec.as ?? (spec.field ? `${spec.fn}_${spec.field}` : spec.fn);
+}
+
+/**
+ * Header of the result column of an aggregation, e.g. "Sum of Revenue"
+ */
+export function getAggregationHeader(spec: AggregationSpec, fieldHeader?: string): string {
+  if (spec.as) {
+    return spec.as;
+  }
+  return spec.field ? `${FUNCTION_LABELS[spec.fn]} of ${fieldHeader ?? spec.field}` : FUNCTION_LABELS[spec.fn];
+}
+
+function isNumber(value: any): value is number {
+  return typeof value === 'number' && isFinite(value);
+}
+
+/**
+ * Check that a numeric aggregation has numbers to work with
+ * @returns A description of the problem when the field has values but none
+ * of them are numbers, or null
+ */
+export function findNonNumericAggregation(spec: AggregationSpec, rows: Record<string, any>[]): string | null {
+  if (!NUMERIC_FUNCTIONS.has(spec.fn) || !spec.field) {
+    return null;
+  }
+
+  const values = rows.map(row => getFieldValue(row, spec.field!)).filter(value => !isEmptyValue(value));
+  if (values.length === 0 || values.some(isNumber)) {
+    return null;
+  }
+  return `${spec.fn} needs numbers, but column '${spec.field}' holds ${JSON.stringify(values[0])} and no numbers`;
+}
+
+/**
+ * Compute one aggregation over a set of rows
+ */
+export function aggregate(spec: AggregationSpec, rows: Record<string, any>[]): any {
+  if (spec.fn === 'count' && !spec.field) {
+    return rows.length;
+  }
+
+  const values = rows.map(row => getFieldValue(row, spec.field!)).filter(value => !isEmptyValue(value));
+  const numbers = NUMERIC_FUNCTIONS.has(spec.fn) ? values.filter(isNumber) : [];
+
+  switch (spec.fn) {
+    case 'count':
+      return values.length;
+    case 'countDistinct':
+      return new Set(values.map(value => (typeof value === 'object' ? JSON.stringify(value) : value))).size;
+    case 'sum':
+      return numbers.reduce((sum, value) => sum + value, 0);
+    case 'avg':
+      return numbers.length > 0 ? numbers.reduce((sum, value) => sum + value, 0) / numbers.length : null;
+    case 'median': {
+      if (numbers.length === 0) {
+        return null;
+      }
+      const sorted = [...numbers].sort((a, b) => a - b);
+      const middle = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+    }
+    case 'min':
+    case 'max': {
+      if (values.length === 0) {
+        return null;
+      }
+      const sorted = [...values].sort(compareLikeGrid);
+      return spec.fn === 'min' ? sorted[0] : sorted[sorted.length - 1];
+    }
+  }
+}
+
+/**
+ * Group rows by the values of the given fields. Groups are sorted by those
+ * values as the grid sorts them, and empty values are grouped together as
+ * null and sort first.
+ */
+export function groupRows(
+  rows: Record<string, any>[],
+  fields: string[]
+): Array<{ values: any[]; rows: Record<string, any>[] }> {
+  const groups = new Map<string, { values: any[]; rows: Record<string, any>[] }>();
+
+  for (const row of rows) {
+    const values = fields.map(field => getFieldValue(row, field)).map(value => (isEmptyValue(value) ? null : value));
+    const key = JSON.stringify(values);
+    const group = groups.get(key);
+    if (group) {
+      group.rows.push(row);
+    } else {
+      groups.set(key, { values, rows: [row] });
+    }
+  }
+
+  return [...groups.values()].sort((a, b) => {
+    for (let index = 0; index < fields.length; index++) {
+      const difference = compareLikeGrid(a.values[index], b.values[index]);
+      if (difference !== 0) {
+        return difference;
+      }
+    }
+    return 0;
+  });
+}
+
+/**
+ * Group rows by the given fields and aggregate each group. Groups are sorted
+ * by their group-by values; without group-by fields there is a single row
+ * aggregating all rows.
+ */
+export function aggregateRows(
+  rows: Record<string, any>[],
+  groupBy: string[],
+  aggregations: AggregationSpec[]
+): Record<string, any>[] {
+  const groups = groupRows(rows, groupBy);
+
+  if (groupBy.length === 0 && groups.length === 0) {
+    groups.push({ values: [], rows: [] });
+  }
+
+  return groups.map(group => {
+    const result: Record<string, any> = {};
+    groupBy.forEach((field, index) => {
+      result[field] = group.values[index];
+    });
+    for (const spec of aggregations) {
+      result[getAggregationColumn(spec)] = aggregate(spec, group.rows);
+    }
+    return result;
+  });
+}
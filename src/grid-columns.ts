@@ -0,0 +1,85 @@
+/**
+ * Column definitions inferred from row data
+ *
+ * Lets a grid be created from rows alone: every key found in any row becomes
+ * a column with a readable header and, based on the values' data type (as
+ * for the grid://schema resource), a matching cell data type and filter.
+ */
+
+import type { ColumnDef } from './grid-manager.js';
+import { inferDataType } from './resources/data-resources.js';
+
+// AG Grid's dateString data type and date filter expect 'YYYY-MM-DD' values
+const DATE_STRING_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Words shown in capitals in headers
+const ACRONYMS = new Set(['id', 'url', 'sku', 'api', 'ip', 'vat']);
+
+/**
+ * Turn a field into a header: `profitMargin` and `profit_margin` become "Profit Margin"
+ */
+export function toHeaderName(field: string): string {
+  const words = field
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[\s_.-]+/)
+    .filter(word => word.length > 0);
+
+  return words
+    .map(word => (ACRONYMS.has(word.toLowerCase()) ? word.toUpperCase() : word[0].toUpperCase() + word.slice(1)))
+    .join(' ');
+}
+
+/**
+ * Infer the definition of one column from its values
+ */
+export function inferColumnDef(field: string, values: any[]): ColumnDef {
+  const columnDef: ColumnDef = { field, headerName: toHeaderName(field) };
+  const present = values.filter(value => value !== null && value !== undefined && value !== '');
+
+  const textColumnDef: ColumnDef = { ...columnDef, cellDataType: 'text', filter: 'agTextColumnFilter' };
+  const allStrings = present.every(value => typeof value === 'string');
+
+  // inferDataType looks at a sample; a data type is only set when every value has it
+  switch (inferDataType(present)) {
+    case 'number':
+      if (present.every(value => typeof value === 'number')) {
+        return { ...columnDef, cellDataType: 'number', filter: 'agNumberColumnFilter', type: 'rightAligned' };
+      }
+      return columnDef;
+    case 'boolean':
+      if (present.every(value => typeof value === 'boolean')) {
+        return { ...columnDef, cellDataType: 'boolean' };
+      }
+      return columnDef;
+    case 'date':
+      if (present.every(value => typeof value === 'string' && DATE_STRING_PATTERN.test(value))) {
+        return { ...columnDef, cellDataType: 'dateString', filter: 'agDateColumnFilter' };
+      }
+      // Timestamps and other date formats are filtered as text
+      return allStrings ? textColumnDef : columnDef;
+    case 'text':
+      return allStrings ? textColumnDef : columnDef;
+    default:
+      return columnDef;
+  }
+}
+
+/**
+ * Infer column definitions from the union of the keys of all rows, in the
+ * order the keys first appear
+ */
+export function inferColumnDefs(rowData: Record<string, any>[]): ColumnDef[] {
+  const fields: string[] = [];
+  const seen = new Set<string>();
+  for (const row of rowData) {
+    for (const field of Object.keys(row)) {
+      if (!seen.has(field)) {
+        seen.add(field);
+        fields.push(field);
+      }
+    }
+  }
+
+  return fields.map(field => inferColumnDef(field, rowData.map(row => row[field])));
+}
@@ -0,0 +1,573 @@
+/**
+ * Safe expression language for computed columns
+ *
+ *   revenue - cost
+ *   round(profit / revenue * 100, 1)
+ *   if(quantity > 10, "bulk", "single")
+ *   upper(left(region, 1)) + "-" + text(year(orderDate))
+ *
+ * Expressions combine fields, literals ("text", 'text', numbers, true, false,
+ * null), arithmetic (+ - * / %), comparisons (= != <> < <= > >=), and, or,
+ * not and calls to a fixed set of functions. They are parsed into a tree and
+ * interpreted; nothing is passed to eval, and only the fields of the row
+ * being computed can be read. `+` concatenates when either side is text,
+ * and text compares case-insensitively as in query_grid.
+ *
+ * Bad data never fails a computed column: division by zero, empty operands
+ * and values of the wrong type make its value null for that row.
+ */
+
+import type { ComputedColumn } from './grid-manager.js';
+import { tokenize, type LexerSyntax, type Token } from './grid-lexer.js';
+import { compareValues, getFieldValue, isEmptyValue } from './grid-values.js';
+
+export type ExpressionNode =
+  | { type: 'literal'; value: any }
+  | { type: 'field'; field: string }
+  | { type: 'unary'; operator: '-' | 'not'; operand: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '=' | '!=' | '<' | '<=' | '>' | '>=' | 'and' | 'or';
+
+export interface CompiledExpression {
+  expression: string;
+  /** Fields the expression reads */
+  fields: string[];
+  /**
+   * Evaluate the expression for a row
+   * @throws ExpressionEvaluationError when a value has the wrong type
+   */
+  evaluate(row: Record<string, any>): any;
+}
+
+/**
+ * Raised while evaluating a row; callers treat the result as null
+ */
+export class ExpressionEvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionEvaluationError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+const EXPRESSION_SYNTAX: LexerSyntax = {
+  keywords: new Set(['AND', 'OR', 'NOT', 'TRUE', 'FALSE', 'NULL']),
+  operators: ['<=', '>=', '<>', '!=', '==', '&&', '||', '=', '<', '>', '+', '-', '*', '/', '%', '!'],
+  // Alternative spellings of operators
+  operatorAliases: { '<>': '!=', '==': '=', '&&': 'AND', '||': 'OR', '!': 'NOT' },
+  // "text" or 'text', and `field name`
+  stringQuotes: '"\'',
+  identifierQuotes: '`',
+  punctuation: '(),',
+  identifierName: 'field',
+};
+
+class ExpressionParser {
+  private index = 0;
+  private usedFields = new Set<string>();
+
+  constructor(private tokens: Token[], private fields: string[]) {}
+
+  parse(): { node: ExpressionNode; fields: string[] } {
+    if (this.tokens.length === 0) {
+      throw new Error('Expression is empty');
+    }
+
+    const node = this.parseOr();
+    const rest = this.peek();
+    if (rest) {
+      throw this.error(`Unexpected '${rest.value}'`, rest);
+    }
+
+    return { node, fields: [...this.usedFields] };
+  }
+
+  private parseOr(): ExpressionNode {
+    let node = this.parseAnd();
+    while (this.acceptKeyword('OR')) {
+      node = { type: 'binary', operator: 'or', left: node, right: this.parseAnd() };
+    }
+    return node;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let node = this.parseNot();
+    while (this.acceptKeyword('AND')) {
+      node = { type: 'binary', operator: 'and', left: node, right: this.parseNot() };
+    }
+    return node;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.acceptKeyword('NOT')) {
+      return { type: 'unary', operator: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    const operator = this.acceptOperator('=', '!=', '<', '<=', '>', '>=');
+    if (!operator) {
+      return left;
+    }
+    return { type: 'binary', operator, left, right: this.parseAdditive() };
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let node = this.parseMultiplicative();
+    for (let operator = this.acceptOperator('+', '-'); operator; operator = this.acceptOperator('+', '-')) {
+      node = { type: 'binary', operator, left: node, right: this.parseMultiplicative() };
+    }
+    return node;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let node = this.parseUnary();
+    for (let operator = this.acceptOperator('*', '/', '%'); operator; operator = this.acceptOperator('*', '/', '%')) {
+      node = { type: 'binary', operator, left: node, right: this.parseUnary() };
+    }
+    return node;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.acceptOperator('-')) {
+      return { type: 'unary', operator: '-', operand: this.parseUnary() };
+    }
+    this.acceptOperator('+');
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+    if (!token) {
+      throw this.error('Expected a value', token);
+    }
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'keyword':
+        if (token.value === 'TRUE' || token.value === 'FALSE') {
+          return { type: 'literal', value: token.value === 'TRUE' };
+        }
+        if (token.value === 'NULL') {
+          return { type: 'literal', value: null };
+        }
+        break;
+      case 'punctuation':
+        if (token.value === '(') {
+          const node = this.parseOr();
+          this.expectPunctuation(')');
+          return node;
+        }
+        break;
+      case 'identifier':
+        return this.acceptPunctuation('(') ? this.parseCall(token) : this.resolveField(token);
+    }
+
+    throw this.error(`Unexpected '${token.value}'`, token);
+  }
+
+  private parseCall(token: Token): ExpressionNode {
+    const name = FUNCTION_NAMES.get(token.value.toLowerCase());
+    if (!name) {
+      throw this.error(`Unknown function '${token.value}'. Available functions: ${EXPRESSION_FUNCTIONS.join(', ')}`, token);
+    }
+
+    const args: ExpressionNode[] = [];
+    if (!this.acceptPunctuation(')')) {
+      do {
+        args.push(this.parseOr());
+      } while (this.acceptPunctuation(','));
+      this.expectPunctuation(')');
+    }
+
+    const [min, max] = FUNCTIONS[name].arity;
+    if (args.length < min || args.length > max) {
+      const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+      throw this.error(`${name}() takes ${expected} argument(s), got ${args.length}`, token);
+    }
+
+    return { type: 'call', name, args };
+  }
+
+  private resolveField(token: Token): ExpressionNode {
+    let field = this.fields.includes(token.value) ? token.value : undefined;
+    if (!field) {
+      const matches = this.fields.filter(candidate => candidate.toLowerCase() === token.value.toLowerCase());
+      field = matches.length === 1 ? matches[0] : undefined;
+    }
+    if (!field) {
+      throw new Error(`Unknown column '${token.value}'. Available columns: ${this.fields.join(', ')}`);
+    }
+
+    this.usedFields.add(field);
+    return { type: 'field', field };
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'keyword' && token.value === keyword) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptOperator<T extends BinaryOperator>(...operators: T[]): T | undefined {
+    const token = this.peek();
+    if (token?.type === 'operator' && (operators as string[]).includes(token.value)) {
+      this.index++;
+      return token.value as T;
+    }
+    return undefined;
+  }
+
+  private acceptPunctuation(value: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'punctuation' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunctuation(value: string): void {
+    if (!this.acceptPunctuation(value)) {
+      throw this.error(`Expected '${value}'`, this.peek());
+    }
+  }
+
+  private error(message: string, token: Token | undefined): Error {
+    return new Error(token ? `${message} at position ${token.position}` : `${message} at the end of the expression`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toNumber(value: any): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (typeof value === 'string' && value.trim() !== '' && isFinite(Number(value))) {
+    return Number(value);
+  }
+  throw new ExpressionEvaluationError(`${JSON.stringify(value)} is not a number`);
+}
+
+function toText(value: any): string {
+  if (isEmptyValue(value)) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function toBoolean(value: any): boolean {
+  return !isEmptyValue(value) && value !== false && value !== 0;
+}
+
+/**
+ * Read a date as a UTC timestamp; dates are ISO strings such as `2024-03-31`
+ */
+function toDate(value: any): number {
+  const time = typeof value === 'string' ? Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00Z` : value) : NaN;
+  if (isNaN(time)) {
+    throw new ExpressionEvaluationError(`${JSON.stringify(value)} is not a date`);
+  }
+  return time;
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function compare(a: any, b: any): number {
+  if (typeof a === 'number' || typeof b === 'number') {
+    return toNumber(a) - toNumber(b);
+  }
+  return compareValues(toText(a), toText(b));
+}
+
+interface FunctionSpec {
+  arity: [number, number];
+  /** Lazy functions get their arguments unevaluated */
+  lazy?: boolean;
+  /** Return null when any argument is empty instead of calling the function */
+  nullOnEmpty?: boolean;
+  call: (args: any[], evaluateArg: (index: number) => any) => any;
+}
+
+const FUNCTIONS: Record<string, FunctionSpec> = {
+  // Conditional
+  if: {
+    arity: [2, 3],
+    lazy: true,
+    call: (args, evaluateArg) => (toBoolean(evaluateArg(0)) ? evaluateArg(1) : args.length > 2 ? evaluateArg(2) : null),
+  },
+  coalesce: {
+    arity: [1, Infinity],
+    lazy: true,
+    call: (args, evaluateArg) => {
+      for (let index = 0; index < args.length; index++) {
+        const value = evaluateArg(index);
+        if (!isEmptyValue(value)) {
+          return value;
+        }
+      }
+      return null;
+    },
+  },
+  isBlank: { arity: [1, 1], call: ([value]) => isEmptyValue(value) },
+
+  // Math
+  abs: { arity: [1, 1], nullOnEmpty: true, call: ([value]) => Math.abs(toNumber(value)) },
+  round: {
+    arity: [1, 2],
+    nullOnEmpty: true,
+    call: ([value, digits = 0]) => {
+      const factor = 10 ** toNumber(digits);
+      return Math.round(toNumber(value) * factor) / factor;
+    },
+  },
+  floor: { arity: [1, 1], nullOnEmpty: true, call: ([value]) => Math.floor(toNumber(value)) },
+  ceil: { arity: [1, 1], nullOnEmpty: true, call: ([value]) => Math.ceil(toNumber(value)) },
+  sqrt: { arity: [1, 1], nullOnEmpty: true, call: ([value]) => Math.sqrt(toNumber(value)) },
+  pow: { arity: [2, 2], nullOnEmpty: true, call: ([base, exponent]) => toNumber(base) ** toNumber(exponent) },
+  min: {
+    arity: [1, Infinity],
+    call: args => {
+      const numbers = args.filter(value => !isEmptyValue(value)).map(toNumber);
+      return numbers.length > 0 ? Math.min(...numbers) : null;
+    },
+  },
+  max: {
+    arity: [1, Infinity],
+    call: args => {
+      const numbers = args.filter(value => !isEmptyValue(value)).map(toNumber);
+      return numbers.length > 0 ? Math.max(...numbers) : null;
+    },
+  },
+
+  // Text
+  concat: { arity: [1, Infinity], call: args => args.map(toText).join('') },
+  upper: { arity: [1, 1], call: ([value]) => toText(value).toUpperCase() },
+  lower: { arity: [1, 1], call: ([value]) => toText(value).toLowerCase() },
+  trim: { arity: [1, 1], call: ([value]) => toText(value).trim() },
+  len: { arity: [1, 1], call: ([value]) => toText(value).length },
+  left: { arity: [2, 2], call: ([value, count]) => toText(value).slice(0, Math.max(0, toNumber(count))) },
+  right: {
+    arity: [2, 2],
+    call: ([value, count]) => {
+      const text = toText(value);
+      return text.slice(Math.max(0, text.length - toNumber(count)));
+    },
+  },
+  // 1-based start position, as in spreadsheets
+  mid: {
+    arity: [2, 3],
+    call: ([value, start, length]) => {
+      const from = Math.max(0, toNumber(start) - 1);
+      return toText(value).slice(from, length === undefined ? undefined : from + Math.max(0, toNumber(length)));
+    },
+  },
+  contains: { arity: [2, 2], call: ([value, search]) => toText(value).toLowerCase().includes(toText(search).toLowerCase()) },
+  startsWith: { arity: [2, 2], call: ([value, search]) => toText(value).toLowerCase().startsWith(toText(search).toLowerCase()) },
+  endsWith: { arity: [2, 2], call: ([value, search]) => toText(value).toLowerCase().endsWith(toText(search).toLowerCase()) },
+  replace: { arity: [3, 3], call: ([value, search, replacement]) => toText(value).split(toText(search)).join(toText(replacement)) },
+  text: { arity: [1, 1], call: ([value]) => toText(value) },
+  number: { arity: [1, 1], nullOnEmpty: true, call: ([value]) => toNumber(value) },
+
+  // Dates, as 'YYYY-MM-DD' strings
+  today: { arity: [0, 0], call: () => formatDate(Date.now()) },
+  date: {
+    arity: [1, 3],
+    nullOnEmpty: true,
+    call: ([year, month, day]) => (month === undefined
+      ? formatDate(toDate(year))
+      : formatDate(Date.UTC(toNumber(year), toNumber(month) - 1, day === undefined ? 1 : toNumber(day)))),
+  },
+  year: { arity: [1, 1], nullOnEmpty: true, call: ([value]) => new Date(toDate(value)).getUTCFullYear() },
+  month: { arity: [1, 1], nullOnEmpty: true, call: ([value]) => new Date(toDate(value)).getUTCMonth() + 1 },
+  day: { arity: [1, 1], nullOnEmpty: true, call: ([value]) => new Date(toDate(value)).getUTCDate() },
+  weekday: { arity: [1, 1], nullOnEmpty: true, call: ([value]) => new Date(toDate(value)).getUTCDay() || 7 },
+  addDays: { arity: [2, 2], nullOnEmpty: true, call: ([value, days]) => formatDate(toDate(value) + toNumber(days) * DAY_MS) },
+  daysBetween: {
+    arity: [2, 2],
+    nullOnEmpty: true,
+    call: ([start, end]) => Math.round((toDate(end) - toDate(start)) / DAY_MS),
+  },
+};
+
+/**
+ * Names of the functions expressions can call
+ */
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+// Function names are matched case-insensitively
+const FUNCTION_NAMES = new Map(EXPRESSION_FUNCTIONS.map(name => [name.toLowerCase(), name]));
+
+function evaluateBinary(operator: BinaryOperator, left: any, right: any): any {
+  switch (operator) {
+    case '=':
+      return isEmptyValue(left) || isEmptyValue(right) ? isEmptyValue(left) === isEmptyValue(right) : compare(left, right) === 0;
+    case '!=':
+      return isEmptyValue(left) || isEmptyValue(right) ? isEmptyValue(left) !== isEmptyValue(right) : compare(left, right) !== 0;
+  }
+
+  if (isEmptyValue(left) || isEmptyValue(right)) {
+    // Empty values never compare and make arithmetic empty; text concatenation skips them
+    if (operator === '+' && (typeof left === 'string' || typeof right === 'string')) {
+      return toText(left) + toText(right);
+    }
+    return ['<', '<=', '>', '>='].includes(operator) ? false : null;
+  }
+
+  switch (operator) {
+    case '<': return compare(left, right) < 0;
+    case '<=': return compare(left, right) <= 0;
+    case '>': return compare(left, right) > 0;
+    case '>=': return compare(left, right) >= 0;
+    case '+':
+      return typeof left === 'string' || typeof right === 'string'
+        ? toText(left) + toText(right)
+        : toNumber(left) + toNumber(right);
+    case '-': return toNumber(left) - toNumber(right);
+    case '*': return toNumber(left) * toNumber(right);
+    case '/': return toNumber(left) / toNumber(right);
+    case '%': return toNumber(left) % toNumber(right);
+    default: return null;
+  }
+}
+
+function evaluateNode(node: ExpressionNode, row: Record<string, any>): any {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'field':
+      return getFieldValue(row, node.field) ?? null;
+
+    case 'unary': {
+      const value = evaluateNode(node.operand, row);
+      if (node.operator === 'not') {
+        return !toBoolean(value);
+      }
+      return isEmptyValue(value) ? null : -toNumber(value);
+    }
+
+    case 'binary':
+      if (node.operator === 'and') {
+        return toBoolean(evaluateNode(node.left, row)) && toBoolean(evaluateNode(node.right, row));
+      }
+      if (node.operator === 'or') {
+        return toBoolean(evaluateNode(node.left, row)) || toBoolean(evaluateNode(node.right, row));
+      }
+      return evaluateBinary(node.operator, evaluateNode(node.left, row), evaluateNode(node.right, row));
+
+    case 'call': {
+      const spec = FUNCTIONS[node.name];
+      const evaluateArg = (index: number) => evaluateNode(node.args[index], row);
+      if (spec.lazy) {
+        return spec.call(node.args, evaluateArg);
+      }
+      const args = node.args.map((_, index) => evaluateArg(index));
+      if (spec.nullOnEmpty && args.some(isEmptyValue)) {
+        return null;
+      }
+      return spec.call(args, evaluateArg);
+    }
+  }
+}
+
+/**
+ * Parse an expression, checking every field against the given fields
+ * @throws Error describing the syntax error, unknown column or unknown function
+ */
+export function compileExpression(expression: string, fields: string[]): CompiledExpression {
+  const { node, fields: usedFields } = new ExpressionParser(tokenize(expression, EXPRESSION_SYNTAX), fields).parse();
+
+  return {
+    expression,
+    fields: usedFields,
+    evaluate(row) {
+      const value = evaluateNode(node, row);
+      // Division by zero and similar give no value rather than Infinity or NaN
+      return typeof value === 'number' && !isFinite(value) ? null : value ?? null;
+    },
+  };
+}
+
+/**
+ * Fields a computed column's expression may read: the grid's columns except
+ * computed columns that are not defined before it
+ */
+export function getComputedColumnInputs(
+  fields: string[],
+  computedColumns: ComputedColumn[],
+  field: string
+): string[] {
+  const index = computedColumns.findIndex(column => column.field === field);
+  const later = new Set(computedColumns.slice(index === -1 ? computedColumns.length : index).map(column => column.field));
+  return fields.filter(candidate => candidate !== field && !later.has(candidate));
+}
+
+/**
+ * Compute the computed columns of rows in definition order, so later columns
+ * can use earlier ones. Rows are copied, not mutated. A column whose
+ * expression no longer compiles (e.g. a column it reads was removed) is empty.
+ */
+export function applyComputedColumns(
+  rows: Record<string, any>[],
+  computedColumns: ComputedColumn[],
+  fields: string[]
+): Record<string, any>[] {
+  if (computedColumns.length === 0) {
+    return rows;
+  }
+
+  const compiled = computedColumns.map(column => {
+    try {
+      return compileExpression(column.expression, getComputedColumnInputs(fields, computedColumns, column.field));
+    } catch {
+      return undefined;
+    }
+  });
+
+  return rows.map(row => {
+    const result = { ...row };
+    computedColumns.forEach((column, index) => {
+      try {
+        result[column.field] = compiled[index] ? compiled[index]!.evaluate(result) : null;
+      } catch (error) {
+        if (!(error instanceof ExpressionEvaluationError)) {
+          throw error;
+        }
+        result[column.field] = null;
+      }
+    });
+    return result;
+  });
+}
@@ -0,0 +1,373 @@
+/**
+ * Typed filter DSL compiled into AG Grid filter models
+ *
+ * A filter is a condition `{ field, op, value }` or an `{ and: [...] }` /
+ * `{ or: [...] }` group of them. Fields are checked against the grid's column
+ * definitions, and operators and values against the column's data type
+ * (inferred from the first row's value, as AG Grid infers it), so mistakes
+ * are reported instead of silently matching no rows.
+ */
+
+import { GridManagerError, type ColumnDef } from './grid-manager.js';
+import { getFieldValue } from './grid-values.js';
+
+export const FILTER_OPERATORS = [
+  'eq', 'ne', 'lt', 'lte', 'gt', 'gte', 'between',
+  'contains', 'notContains', 'startsWith', 'endsWith',
+  'blank', 'notBlank',
+] as const;
+
+export type FilterOperator = typeof FILTER_OPERATORS[number];
+
+export interface FilterCondition {
+  field: string;
+  op: FilterOperator;
+  value?: any;
+  /** Upper bound for `between` */
+  valueTo?: any;
+}
+
+export type FilterNode = FilterCondition | { and: FilterNode[] } | { or: FilterNode[] };
+
+/**
+ * AG Grid filter used for a column
+ */
+export type FilterColumnType = 'number' | 'text' | 'date' | 'boolean';
+
+// AG Grid filter option for each operator, per column type
+const FILTER_OPTIONS: Record<FilterColumnType, Partial<Record<FilterOperator, string>>> = {
+  number: {
+    eq: 'equals',
+    ne: 'notEqual',
+    lt: 'lessThan',
+    lte: 'lessThanOrEqual',
+    gt: 'greaterThan',
+    gte: 'greaterThanOrEqual',
+    between: 'inRange',
+    blank: 'blank',
+    notBlank: 'notBlank',
+  },
+  text: {
+    eq: 'equals',
+    ne: 'notEqual',
+    contains: 'contains',
+    notContains: 'notContains',
+    startsWith: 'startsWith',
+    endsWith: 'endsWith',
+    blank: 'blank',
+    notBlank: 'notBlank',
+  },
+  date: {
+    eq: 'equals',
+    ne: 'notEqual',
+    lt: 'lessThan',
+    gt: 'greaterThan',
+    between: 'inRange',
+    blank: 'blank',
+    notBlank: 'notBlank',
+  },
+  // Boolean columns use the text filter with 'true' and 'false' options
+  boolean: {
+    eq: 'equals',
+  },
+};
+
+// Most conditions AG Grid's filters hold per column
+const MAX_CONDITIONS: Record<FilterColumnType, number> = {
+  number: 2,
+  text: 2,
+  date: 2,
+  boolean: 1,
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface ColumnFilter {
+  field: string;
+  type: FilterColumnType;
+  operator: 'AND' | 'OR';
+  conditions: Record<string, any>[];
+}
+
+/**
+ * Work out which AG Grid filter a column uses
+ * @returns The filter type, or undefined when the column has no filter the DSL can target
+ */
+export function getFilterColumnType(columnDef: ColumnDef, rowData: Record<string, any>[]): FilterColumnType | undefined {
+  if (columnDef.filter === false) {
+    return undefined;
+  }
+
+  if (typeof columnDef.filter === 'string') {
+    switch (columnDef.filter) {
+      case 'agNumberColumnFilter': return 'number';
+      case 'agTextColumnFilter': return 'text';
+      case 'agDateColumnFilter': return 'date';
+      default: return undefined;
+    }
+  }
+
+  switch (columnDef.cellDataType) {
+    case 'number': return 'number';
+    case 'text': return 'text';
+    case 'boolean': return 'boolean';
+    case 'date':
+    case 'dateString': return 'date';
+  }
+
+  if (columnDef.type === 'numericColumn') {
+    return 'number';
+  }
+
+  // AG Grid infers the data type from the first row only; without one it uses the text filter
+  const value = rowData.length > 0 ? getFieldValue(rowData[0], columnDef.field) : undefined;
+  if (typeof value === 'string') {
+    return DATE_PATTERN.test(value) ? 'date' : 'text';
+  }
+  if (typeof value === 'number') {
+    return 'number';
+  }
+  if (typeof value === 'boolean') {
+    return 'boolean';
+  }
+  return 'text';
+}
+
+/**
+ * List the keys of a raw filter model that are not columns of the grid
+ */
+export function findUnknownFilterFields(filterModel: Record<string, any>, columnDefs: ColumnDef[]): string[] {
+  const colIds = new Set(columnDefs.map(column => column.colId ?? column.field));
+  return Object.keys(filterModel).filter(key => !colIds.has(key));
+}
+
+class FilterCompiler {
+  readonly issues: string[] = [];
+
+  constructor(
+    private columnDefs: ColumnDef[],
+    private rowData: Record<string, any>[],
+    private rootPath: string = 'filter'
+  ) {}
+
+  /**
+   * Compile a filter, collecting problems in `issues` instead of throwing
+   */
+  compile(filter: FilterNode): Record<string, any> {
+    const filters = new Map<string, ColumnFilter>();
+
+    // AG Grid combines the filters of different columns with AND
+    for (const { node, path } of this.flattenAnd(filter, this.rootPath)) {
+      const columnFilter = this.compileTerm(node, path);
+      if (!columnFilter) {
+        continue;
+      }
+
+      const existing = filters.get(columnFilter.field);
+      if (!existing) {
+        filters.set(columnFilter.field, columnFilter);
+        continue;
+      }
+
+      const isAnd = (candidate: ColumnFilter) => candidate.operator === 'AND' || candidate.conditions.length === 1;
+      if (!isAnd(existing) || !isAnd(columnFilter)) {
+        this.issues.push(`${path}: conditions on '${columnFilter.field}' combine "and" and "or", which AG Grid filters cannot express`);
+        continue;
+      }
+      existing.operator = 'AND';
+      existing.conditions.push(...columnFilter.conditions);
+    }
+
+    const filterModel: Record<string, any> = {};
+    for (const columnFilter of filters.values()) {
+      const { field, type, operator, conditions } = columnFilter;
+      if (conditions.length > MAX_CONDITIONS[type]) {
+        this.issues.push(
+          `AG Grid's ${type} filter holds at most ${MAX_CONDITIONS[type]} condition(s) per column, '${field}' has ${conditions.length}`
+        );
+        continue;
+      }
+
+      const columnDef = this.columnDefs.find(column => column.field === field)!;
+      filterModel[columnDef.colId ?? field] = conditions.length === 1
+        ? conditions[0]
+        : { filterType: conditions[0].filterType, operator, conditions };
+    }
+
+    return filterModel;
+  }
+
+  private flattenAnd(node: FilterNode, path: string): Array<{ node: FilterNode; path: string }> {
+    if ('and' in node) {
+      return node.and.flatMap((child, index) => this.flattenAnd(child, `${path}.and[${index}]`));
+    }
+    return [{ node, path }];
+  }
+
+  private compileTerm(node: FilterNode, path: string): ColumnFilter | undefined {
+    if (!('or' in node)) {
+      return 'field' in node ? this.compileCondition(node, path) : undefined;
+    }
+
+    const filters: ColumnFilter[] = [];
+    node.or.forEach((child, index) => {
+      const childPath = `${path}.or[${index}]`;
+      if (!('field' in child)) {
+        this.issues.push(`${childPath}: groups inside "or" cannot be expressed as AG Grid filters`);
+        return;
+      }
+      const filter = this.compileCondition(child, childPath);
+      if (filter) {
+        filters.push(filter);
+      }
+    });
+
+    if (filters.length === 0) {
+      return undefined;
+    }
+
+    const fields = [...new Set(filters.map(filter => filter.field))];
+    if (fields.length > 1) {
+      this.issues.push(`${path}: AG Grid can only combine conditions on one column with "or", found ${fields.join(', ')}`);
+      return undefined;
+    }
+
+    return {
+      field: fields[0],
+      type: filters[0].type,
+      operator: 'OR',
+      conditions: filters.flatMap(filter => filter.conditions),
+    };
+  }
+
+  private compileCondition(condition: FilterCondition, path: string): ColumnFilter | undefined {
+    const { field, op, value, valueTo } = condition;
+    const columnDef = this.columnDefs.find(column => column.field === field);
+    if (!columnDef) {
+      const similar = this.columnDefs.find(column => column.field.toLowerCase() === field.toLowerCase());
+      this.issues.push(similar
+        ? `${path}.field: unknown column '${field}', did you mean '${similar.field}'?`
+        : `${path}.field: unknown column '${field}'; columns are ${this.columnDefs.map(column => column.field).join(', ')}`);
+      return undefined;
+    }
+
+    const type = getFilterColumnType(columnDef, this.rowData);
+    if (!type) {
+      this.issues.push(`${path}.field: column '${field}' has no text, number or date filter`);
+      return undefined;
+    }
+
+    const option = FILTER_OPTIONS[type][op];
+    if (!option) {
+      const supported = Object.keys(FILTER_OPTIONS[type]).join(', ');
+      this.issues.push(`${path}.op: '${op}' is not supported on ${type} column '${field}'; use one of ${supported}`);
+      return undefined;
+    }
+
+    const filterCondition = this.buildCondition(type, option, value, valueTo, path, field);
+    return filterCondition && { field, type, operator: 'AND', conditions: [filterCondition] };
+  }
+
+  private buildCondition(
+    type: FilterColumnType,
+    option: string,
+    value: any,
+    valueTo: any,
+    path: string,
+    field: string
+  ): Record<string, any> | undefined {
+    if (option === 'blank' || option === 'notBlank') {
+      return { filterType: type === 'boolean' ? 'text' : type, type: option };
+    }
+
+    if (value === undefined || value === null) {
+      this.issues.push(`${path}.value: a value is required`);
+      return undefined;
+    }
+    if (option === 'inRange' && (valueTo === undefined || valueTo === null)) {
+      this.issues.push(`${path}.valueTo: 'between' requires valueTo`);
+      return undefined;
+    }
+
+    switch (type) {
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          this.issues.push(`${path}.value: boolean column '${field}' needs true or false, got ${JSON.stringify(value)}`);
+          return undefined;
+        }
+        return { filterType: 'text', type: String(value) };
+
+      case 'number': {
+        const bounds = option === 'inRange' ? [value, valueTo] : [value];
+        if (bounds.some(bound => typeof bound !== 'number' || !isFinite(bound))) {
+          this.issues.push(`${path}: number column '${field}' needs numeric values, got ${bounds.map(bound => JSON.stringify(bound)).join(' and ')}`);
+          return undefined;
+        }
+        if (option === 'inRange' && value >= valueTo) {
+          this.issues.push(`${path}: value must be less than valueTo`);
+          return undefined;
+        }
+        return option === 'inRange'
+          ? { filterType: 'number', type: option, filter: value, filterTo: valueTo }
+          : { filterType: 'number', type: option, filter: value };
+      }
+
+      case 'date': {
+        const bounds = option === 'inRange' ? [value, valueTo] : [value];
+        if (bounds.some(bound => typeof bound !== 'string' || !DATE_PATTERN.test(bound) || isNaN(Date.parse(bound)))) {
+          this.issues.push(`${path}: date column '${field}' needs dates as 'YYYY-MM-DD', got ${bounds.map(bound => JSON.stringify(bound)).join(' and ')}`);
+          return undefined;
+        }
+        if (option === 'inRange' && value >= valueTo) {
+          this.issues.push(`${path}: value must be before valueTo`);
+          return undefined;
+        }
+        return {
+          filterType: 'date',
+          type: option,
+          dateFrom: `${value} 00:00:00`,
+          dateTo: option === 'inRange' ? `${valueTo} 00:00:00` : null,
+        };
+      }
+
+      case 'text':
+        if (typeof value !== 'string' && typeof value !== 'number') {
+          this.issues.push(`${path}.value: text column '${field}' needs a string, got ${JSON.stringify(value)}`);
+          return undefined;
+        }
+        return { filterType: 'text', type: option, filter: String(value) };
+    }
+  }
+}
+
+/**
+ * Compile a filter into an AG Grid filter model
+ * @throws GridManagerError with code INVALID_FILTER listing every problem found
+ */
+export function compileFilter(
+  filter: FilterNode,
+  columnDefs: ColumnDef[],
+  rowData: Record<string, any>[]
+): Record<string, any> {
+  const compiler = new FilterCompiler(columnDefs, rowData);
+  const filterModel = compiler.compile(filter);
+  if (compiler.issues.length > 0) {
+    throw new GridManagerError(`Invalid filter: ${compiler.issues.join('; ')}`, 'INVALID_FILTER');
+  }
+  return filterModel;
+}
+
+/**
+ * List the problems of a filter without compiling it, e.g. to check conditions used elsewhere
+ * @param path Name of the filter in the messages
+ */
+export function findFilterIssues(
+  filter: FilterNode,
+  columnDefs: ColumnDef[],
+  rowData: Record<string, any>[],
+  path: string
+): string[] {
+  const compiler = new FilterCompiler(columnDefs, rowData, path);
+  compiler.compile(filter);
+  return compiler.issues;
+}
@@ -0,0 +1,77 @@
+/**
+ * Declarative conditional formatting rules
+ *
+ * AG Grid's cellClassRules and cellStyle take functions, which cannot be sent
+ * as JSON. A formatting rule is instead a condition in the typed filter DSL
+ * (see grid-filters.ts) on one column, a preset class or a restricted style,
+ * and a scope: `cell` formats the condition's column, `row` the whole row.
+ * The grid page and the web viewer turn rules into AG Grid class rules, so
+ * formatting shows in screenshots as well as in the browser.
+ */
+
+import { GridManagerError, type ColumnDef } from './grid-manager.js';
+import { findFilterIssues, type FilterCondition } from './grid-filters.js';
+
+/**
+ * Preset classes, styled by web/grid.html and public/css/grid-viewer.css as `cf-<preset>`
+ */
+export const FORMATTING_PRESETS = [
+  'negative', 'positive', 'warning', 'danger', 'success', 'highlight', 'muted', 'bold',
+] as const;
+
+export type FormattingPreset = typeof FORMATTING_PRESETS[number];
+
+export type FormattingScope = 'cell' | 'row';
+
+export interface FormattingStyle {
+  color?: string;
+  backgroundColor?: string;
+  fontWeight?: 'normal' | 'bold';
+  fontStyle?: 'normal' | 'italic';
+  textDecoration?: 'none' | 'underline' | 'line-through';
+}
+
+export interface FormattingRule {
+  condition: FilterCondition;
+  /** What to format when the condition matches (defaults to `cell`) */
+  scope?: FormattingScope;
+  preset?: FormattingPreset;
+  style?: FormattingStyle;
+}
+
+// Colors as hex, a name, or rgb()/rgba()/hsl()/hsla() with plain numbers
+const COLOR_PATTERN = /^(#[0-9a-fA-F]{3,8}|[a-zA-Z]+|(rgb|rgba|hsl|hsla)\(\s*[\d.%]+(\s*,\s*[\d.%]+){2,3}\s*\))$/;
+
+/**
+ * Check formatting rules against the grid's columns and values
+ * @throws GridManagerError with code INVALID_FORMATTING listing every problem found
+ */
+export function validateFormattingRules(
+  rules: FormattingRule[],
+  columnDefs: ColumnDef[],
+  rowData: Record<string, any>[]
+): void {
+  const issues: string[] = [];
+
+  rules.forEach((rule, index) => {
+    const path = `rules[${index}]`;
+    issues.push(...findFilterIssues(rule.condition, columnDefs, rowData, `${path}.condition`));
+
+    if (!rule.preset === !rule.style) {
+      issues.push(`${path}: give either a preset or a style`);
+    }
+    if (rule.style && Object.keys(rule.style).length === 0) {
+      issues.push(`${path}.style: set at least one property`);
+    }
+    for (const property of ['color', 'backgroundColor'] as const) {
+      const color = rule.style?.[property];
+      if (color !== undefined && !COLOR_PATTERN.test(color)) {
+        issues.push(`${path}.style.${property}: '${color}' is not a color such as #c62828, red or rgb(198, 40, 40)`);
+      }
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new GridManagerError(`Invalid formatting rules: ${issues.join('; ')}`, 'INVALID_FORMATTING');
+  }
+}
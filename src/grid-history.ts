@@ -0,0 +1,139 @@
+/**
+ * Bounded undo/redo history for grid mutations
+ *
+ * Each entry stores the before and after value of every aspect of a grid an
+ * operation changed (row data, filter model, column state, column
+ * definitions or computed columns). Undoing an entry re-applies the before values through the
+ * GridManager, redoing it re-applies the after values. Row arrays are stored
+ * by reference, so entries only hold on to rows that are no longer live.
+ */
+
+export type HistoryChangeType = 'rowData' | 'filterModel' | 'columnState' | 'columnDefs' | 'computedColumns';
+
+export interface HistoryChange {
+  type: HistoryChangeType;
+  before: any;
+  after: any;
+}
+
+export interface HistoryEntry {
+  id: number;
+  /** Operation that made the change, e.g. `update_grid_data` or an AG Grid API method */
+  action: string;
+  description: string;
+  timestamp: string;
+  changes: HistoryChange[];
+}
+
+export interface HistoryEntrySummary {
+  id: number;
+  action: string;
+  description: string;
+  timestamp: string;
+  changes: HistoryChangeType[];
+}
+
+export interface GridHistorySummary {
+  limit: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Entries that can be undone, most recent first */
+  undo: HistoryEntrySummary[];
+  /** Entries that can be redone, next redo first */
+  redo: HistoryEntrySummary[];
+}
+
+/**
+ * Number of history entries kept per grid when not configured
+ */
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+export class GridHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private nextId = 1;
+
+  constructor(private limit: number = DEFAULT_HISTORY_LIMIT) {}
+
+  /**
+   * Record a new change; this discards everything that could be redone
+   */
+  record(action: string, description: string, changes: HistoryChange[]): HistoryEntry {
+    const entry: HistoryEntry = {
+      id: this.nextId++,
+      action,
+      description,
+      timestamp: new Date().toISOString(),
+      changes,
+    };
+
+    this.undoStack.push(entry);
+    this.redoStack = [];
+
+    // Drop the oldest entries once the limit is reached
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.splice(0, this.undoStack.length - this.limit);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Get the entry the next undo would revert, without removing it
+   */
+  peekUndo(): HistoryEntry | undefined {
+    return this.undoStack[this.undoStack.length - 1];
+  }
+
+  /**
+   * Get the entry the next redo would re-apply, without removing it
+   */
+  peekRedo(): HistoryEntry | undefined {
+    return this.redoStack[this.redoStack.length - 1];
+  }
+
+  /**
+   * Move the most recent entry to the redo stack once it has been reverted
+   */
+  commitUndo(): void {
+    const entry = this.undoStack.pop();
+    if (entry) {
+      this.redoStack.push(entry);
+    }
+  }
+
+  /**
+   * Move the next redo entry back to the undo stack once it has been re-applied
+   */
+  commitRedo(): void {
+    const entry = this.redoStack.pop();
+    if (entry) {
+      this.undoStack.push(entry);
+    }
+  }
+
+  /**
+   * Summarise the history without the stored values
+   */
+  getSummary(): GridHistorySummary {
+    return {
+      limit: this.limit,
+      canUndo: this.undoStack.length > 0,
+      canRedo: this.redoStack.length > 0,
+      undo: [...this.undoStack].reverse().map(summarizeEntry),
+      redo: [...this.redoStack].reverse().map(summarizeEntry),
+    };
+  }
+}
+
+export function summarizeEntry(entry: HistoryEntry): HistoryEntrySummary {
+  return {
+    id: entry.id,
+    action: entry.action,
+    description: entry.description,
+    timestamp: entry.timestamp,
+    changes: entry.changes.map(change => change.type),
+  };
+}
+
+export default GridHistory;
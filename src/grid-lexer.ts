@@ -0,0 +1,122 @@
+/**
+ * Tokenizer shared by the query language and computed column expressions
+ *
+ * Both languages read numbers, words (keywords or field names, which may
+ * contain dots), quoted text with a doubled quote as an escaped quote, and
+ * quoted field names. They differ in their keywords, operators, quote
+ * characters and punctuation, which each passes in as a `LexerSyntax`.
+ */
+
+export type TokenType = 'keyword' | 'identifier' | 'string' | 'number' | 'operator' | 'punctuation';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+export interface LexerSyntax {
+  /** Upper-case keywords; words are matched case-insensitively */
+  keywords: ReadonlySet<string>;
+  /** Operators, with longer ones before their prefixes */
+  operators: readonly string[];
+  /** Alternative spellings of operators, mapped to an operator or a keyword */
+  operatorAliases?: Readonly<Record<string, string>>;
+  /** Characters that quote text */
+  stringQuotes: string;
+  /** Characters that quote field names */
+  identifierQuotes: string;
+  /** Single-character punctuation */
+  punctuation: string;
+  /** What a quoted identifier names, for error messages, e.g. 'column' */
+  identifierName: string;
+}
+
+/**
+ * Split source text into tokens
+ * @throws Error with the position of an unterminated quote or an unexpected character
+ */
+export function tokenize(source: string, syntax: LexerSyntax): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    const position = index;
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    // Quoted text, with a doubled quote as an escaped quote
+    if (syntax.stringQuotes.includes(char)) {
+      let value = '';
+      index++;
+      for (;;) {
+        if (index >= source.length) {
+          throw new Error(`Unterminated string starting at position ${position}`);
+        }
+        if (source[index] === char) {
+          if (source[index + 1] === char) {
+            value += char;
+            index += 2;
+            continue;
+          }
+          index++;
+          break;
+        }
+        value += source[index++];
+      }
+      tokens.push({ type: 'string', value, position });
+      continue;
+    }
+
+    if (syntax.identifierQuotes.includes(char)) {
+      const end = source.indexOf(char, index + 1);
+      if (end === -1) {
+        throw new Error(`Unterminated quoted ${syntax.identifierName} name starting at position ${position}`);
+      }
+      tokens.push({ type: 'identifier', value: source.slice(index + 1, end), position });
+      index = end + 1;
+      continue;
+    }
+
+    const number = /^(\d+(\.\d+)?|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(index));
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position });
+      index += number[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(source.slice(index));
+    if (word) {
+      const upper = word[0].toUpperCase();
+      tokens.push(syntax.keywords.has(upper)
+        ? { type: 'keyword', value: upper, position }
+        : { type: 'identifier', value: word[0], position });
+      index += word[0].length;
+      continue;
+    }
+
+    const operator = syntax.operators.find(candidate => source.startsWith(candidate, index));
+    if (operator) {
+      const value = syntax.operatorAliases?.[operator] ?? operator;
+      tokens.push(syntax.keywords.has(value)
+        ? { type: 'keyword', value, position }
+        : { type: 'operator', value, position });
+      index += operator.length;
+      continue;
+    }
+
+    if (syntax.punctuation.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, position });
+      index++;
+      continue;
+    }
+
+    throw new Error(`Unexpected character '${char}' at position ${position}`);
+  }
+
+  return tokens;
+}
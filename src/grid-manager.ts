@@ -1,12 +1,94 @@
-import puppeteer, { Browser, Page } from 'puppeteer';
+import puppeteer, { Browser, Page, HTTPRequest } from 'puppeteer';
 import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
+import { createRequire } from 'module';
+import { dirname, extname, join, normalize, sep } from 'path';
 import { readFile } from 'fs/promises';
 import { z } from 'zod';
 import type WebSocketManager from './web-server/websocket.js';
+import { PagePool, type PagePoolStats } from './page-pool.js';
+import { GridPersistence, DEFAULT_DATA_DIR, type GridSnapshot } from './grid-persistence.js';
+import {
+  GridHistory,
+  DEFAULT_HISTORY_LIMIT,
+  summarizeEntry,
+  type GridHistorySummary,
+  type HistoryChange,
+  type HistoryEntrySummary,
+} from './grid-history.js';
+import {
+  GRID_METHODS,
+  findGridMethodParamsError,
+  getGridMethodSpec,
+  suggestGridMethods,
+} from './grid-methods.js';
+import {
+  CURRENT_VERSION,
+  DEFAULT_DIFF_ROW_LIMIT,
+  copyGridConfig,
+  describeVersion,
+  diffGridConfigs,
+  type GridDiff,
+  type GridVersion,
+  type GridVersionInfo,
+} from './grid-versions.js';
+import { describeView, type GridView, type GridViewInfo } from './grid-views.js';
+import {
+  aggregateRows,
+  findNonNumericAggregation,
+  getAggregationColumn,
+  getAggregationHeader,
+  type AggregationSpec,
+} from './grid-aggregation.js';
+import { buildPivotTable, type PivotSpec } from './grid-pivot.js';
+import { validateFormattingRules, type FormattingRule } from './grid-formatting.js';
+import {
+  ExpressionEvaluationError,
+  applyComputedColumns,
+  compileExpression,
+  getComputedColumnInputs,
+  type CompiledExpression,
+} from './grid-expressions.js';
+import {
+  buildQueryColumnState,
+  inferQueryColumnKind,
+  parseGridQuery,
+  runGridQuery,
+  translateQueryFilter,
+  type GridQuery,
+  type QueryColumnKind,
+} from './grid-query.js';
+import { buildXlsxWorkbook } from './exporters/xlsx.js';
+import { formatHtml, formatJson, formatMarkdown, formatNdjson } from './exporters/text-formats.js';
+import { buildPdfFooterTemplate, buildPdfReportHtml, PDF_REPORT_ELEMENT_ID } from './exporters/pdf-report.js';
+import { ExportStore, DEFAULT_EXPORT_DIR, type StoredExport } from './exporters/export-store.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
+const require = createRequire(import.meta.url);
+
+// CDN URLs referenced by web/grid.html, served from the local ag-grid-community package instead
+const AG_GRID_CDN_PATTERN = /^https:\/\/cdn\.jsdelivr\.net\/npm\/ag-grid-community@[^/]+\/(.+)$/;
+
+// Number of pre-warmed grid pages kept ready when not configured
+const DEFAULT_PAGE_POOL_SIZE = 2;
+
+// Grid names: letters, digits, spaces, dots, dashes and underscores, starting with a letter or digit
+const GRID_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 ._-]{0,63}$/;
+
+// Computed column fields: identifiers that expressions can refer to without quoting
+const COMPUTED_FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Number of computed values returned as a sample when adding a computed column
+const COMPUTED_SAMPLE_SIZE = 5;
+
+// Scripts the grid page shares with the web viewer; the page has no origin to load them from, so they are inlined
+const SHARED_SCRIPT_TAG_PATTERN = /<script src="\/js\/([\w-]+\.js)"><\/script>/g;
+
+// Content types for the AG Grid assets served from node_modules
+const ASSET_CONTENT_TYPES: Record<string, string> = {
+  '.js': 'application/javascript',
+  '.css': 'text/css',
+};
 
 // Zod schemas for validation
 const ColumnDefSchema = z.object({
@@ -16,18 +98,56 @@ const ColumnDefSchema = z.object({
   minWidth: z.number().optional(),
   maxWidth: z.number().optional(),
   sortable: z.boolean().optional(),
-  filter: z.boolean().optional(),
+  filter: z.union([z.boolean(), z.string()]).optional(),
   resizable: z.boolean().optional(),
   type: z.string().optional(),
+  headerGroup: z.string().optional(),
 }).passthrough(); // Allow additional properties
 
+const ComputedColumnSchema = z.object({
+  field: z.string(),
+  expression: z.string(),
+  headerName: z.string().optional(),
+});
+
 const GridConfigSchema = z.object({
   columnDefs: z.array(ColumnDefSchema),
   rowData: z.array(z.record(z.any())),
   gridOptions: z.record(z.any()).optional(),
+  rowIdField: z.string().optional(),
+  computedColumns: z.array(ComputedColumnSchema).optional(),
+  formattingRules: z.array(z.record(z.any())).optional(),
+});
+
+const RowTransactionSchema = z.object({
+  add: z.array(z.record(z.any())).optional(),
+  addIndex: z.number().int().min(0).optional(),
+  update: z.array(z.record(z.any())).optional(),
+  remove: z.array(z.union([z.record(z.any()), z.string(), z.number()])).optional(),
+});
+
+const ExportFormatSchema = z.enum(['csv', 'excel', 'json', 'ndjson', 'markdown', 'html', 'pdf']);
+
+const ExportOptionsSchema = z.object({
+  onlySelected: z.boolean().optional(),
+  allRows: z.boolean().optional(),
+  columnKeys: z.array(z.string()).min(1).optional(),
+  headerMode: z.enum(['headerName', 'field']).optional(),
+  limit: z.number().int().positive().optional(),
+  title: z.string().optional(),
+  subtitle: z.string().optional(),
 });
 
-const ExportFormatSchema = z.enum(['csv', 'excel']);
+// File extension and MIME type for each export format
+const EXPORT_FORMAT_DETAILS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  excel: { extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  ndjson: { extension: 'ndjson', mimeType: 'application/x-ndjson' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  html: { extension: 'html', mimeType: 'text/html' },
+  pdf: { extension: 'pdf', mimeType: 'application/pdf' },
+};
 
 // TypeScript interfaces
 export interface ColumnDef {
@@ -37,9 +157,12 @@ export interface ColumnDef {
   minWidth?: number;
   maxWidth?: number;
   sortable?: boolean;
-  filter?: boolean;
+  /** Whether the column has a filter, or the AG Grid filter to use, e.g. `agNumberColumnFilter` */
+  filter?: boolean | string;
   resizable?: boolean;
   type?: string;
+  /** Header of a column group; adjacent columns with the same header group are shown under it */
+  headerGroup?: string;
   [key: string]: any; // Allow additional properties
 }
 
@@ -47,15 +170,215 @@ export interface GridConfig {
   columnDefs: ColumnDef[];
   rowData: Record<string, any>[];
   gridOptions?: Record<string, any>;
+  /** Field holding a stable, unique row ID; wired to AG Grid's getRowId */
+  rowIdField?: string;
+  /** Columns computed from an expression, in the order they are computed */
+  computedColumns?: ComputedColumn[];
+  /** Conditional formatting rules, applied in order */
+  formattingRules?: FormattingRule[];
+}
+
+/**
+ * A column whose values are computed from each row with an expression (see
+ * grid-expressions.ts) and recomputed whenever the row data changes
+ */
+export interface ComputedColumn {
+  field: string;
+  expression: string;
+  headerName?: string;
+}
+
+export interface ComputedColumnResult {
+  gridId: string;
+  field: string;
+  expression: string;
+  /** Fields the expression reads */
+  inputs: string[];
+  /** Whether an existing computed column was redefined */
+  replaced: boolean;
+  rowCount: number;
+  /** Rows whose values had the wrong type for the expression; their value is null */
+  errorCount: number;
+  /** First few computed values */
+  sample: any[];
+}
+
+export interface RowTransaction {
+  add?: Record<string, any>[];
+  /** Index to insert added rows at (defaults to the end) */
+  addIndex?: number;
+  update?: Record<string, any>[];
+  /** Rows or row ID values to remove */
+  remove?: Array<Record<string, any> | string | number>;
+}
+
+export interface RowTransactionResult {
+  added: number;
+  updated: number;
+  removed: number;
+  rowCount: number;
+}
+
+export interface GridViewState {
+  columnState: any[];
+  filterModel: Record<string, any>;
 }
 
 export interface GridInstance {
   id: string;
+  /** Unique, human-friendly name that can be used instead of the ID */
+  name?: string;
   page: Page;
   config: GridConfig;
   createdAt: Date;
   lastUpdated: Date;
   isDestroyed: boolean;
+  /** Last time the grid was read or changed through the GridManager */
+  lastAccessed: Date;
+  /** Free-form grid metadata, persisted with the grid */
+  metadata: Record<string, any>;
+  /** Column and filter state captured after the last operation, used to rebuild the grid */
+  lastKnownState?: GridViewState;
+}
+
+export interface CreateGridOptions {
+  /** Use this ID instead of generating one, e.g. when restoring a saved grid */
+  id?: string;
+  /** Unique, human-friendly name that can be used instead of the ID */
+  name?: string;
+  /** Initial grid metadata */
+  metadata?: Record<string, any>;
+}
+
+export interface RenamedGridInfo {
+  gridId: string;
+  name: string;
+  previousName?: string;
+}
+
+/**
+ * What to copy when cloning a grid:
+ * - `full`: all rows, with the current column state and filter
+ * - `displayed`: only the rows that pass the current filter, in display order, with the current column state
+ */
+export type CloneGridMode = 'full' | 'displayed';
+
+export interface CloneGridOptions {
+  mode?: CloneGridMode;
+  /** Unique, human-friendly name for the new grid */
+  name?: string;
+}
+
+export interface ClonedGridInfo {
+  gridId: string;
+  name?: string;
+  sourceGridId: string;
+  mode: CloneGridMode;
+  rowCount: number;
+}
+
+export interface AggregateOptions {
+  /** Fields to group by; without any, all rows form one group */
+  groupBy?: string[];
+  aggregations: AggregationSpec[];
+  /** Also create a new grid holding the result table */
+  createGrid?: boolean;
+  /** Unique, human-friendly name for the new grid */
+  name?: string;
+}
+
+export interface AggregationResult {
+  gridId: string;
+  groupBy: string[];
+  columns: string[];
+  rows: Record<string, any>[];
+  /** Number of rows that passed the filter and were aggregated */
+  sourceRowCount: number;
+  /** ID of the grid created for the result, if requested */
+  createdGridId?: string;
+}
+
+export interface FormattingResult {
+  gridId: string;
+  ruleCount: number;
+  /** Number of rows each rule matches, in rule order */
+  matchedRows: number[];
+}
+
+export interface PivotOptions extends PivotSpec {
+  /** Unique, human-friendly name for the new grid */
+  name?: string;
+}
+
+export interface PivotResult {
+  /** ID of the grid created for the pivot table */
+  gridId: string;
+  name?: string;
+  sourceGridId: string;
+  /** Distinct values of the pivot column, one column each */
+  pivotValues: any[];
+  columns: string[];
+  rows: Record<string, any>[];
+  /** Grand total row, pinned to the bottom of the new grid */
+  totals: Record<string, any>;
+  /** Number of rows that passed the filter and were pivoted */
+  sourceRowCount: number;
+}
+
+export interface SavedGridInfo {
+  gridId: string;
+  path: string;
+  savedAt: string;
+}
+
+export interface HistoryStepResult {
+  gridId: string;
+  /** Entry that was undone or redone */
+  entry: HistoryEntrySummary;
+  history: GridHistorySummary;
+}
+
+export interface SaveViewOptions {
+  description?: string;
+  /** Replace an existing view with the same name */
+  overwrite?: boolean;
+}
+
+export interface AppliedViewInfo {
+  gridId: string;
+  view: GridViewInfo;
+  displayedRowCount: number;
+}
+
+export interface QueryOptions {
+  /** Show the result in the grid by applying the translated filters, sort and visible columns */
+  apply?: boolean;
+}
+
+export interface QueryResult {
+  gridId: string;
+  /** Returned columns; all fields for SELECT * */
+  columns: string[];
+  rows: Record<string, any>[];
+  /** Number of rows matching the query before LIMIT */
+  matchedRows: number;
+  returnedRows: number;
+  truncated: boolean;
+  /** Whether the query was applied to the grid, with the AG Grid state it was translated into */
+  grid: {
+    applied: boolean;
+    filterModel?: Record<string, any>;
+    columnState?: any[];
+    /** Why the query was not applied */
+    reason?: string;
+  };
+}
+
+export interface DiffOptions {
+  /** Field to match rows by (defaults to the grid's rowIdField) */
+  keyField?: string;
+  /** Maximum number of rows listed per category */
+  limit?: number;
 }
 
 export interface GridState {
@@ -74,14 +397,107 @@ export interface GridManagerOptions {
     width: number;
     height: number;
   };
+  /** Directory export files are written to */
+  exportDir?: string;
+  /** Number of pre-warmed grid pages to keep ready (0 disables pooling) */
+  pagePoolSize?: number;
+  /** Directory grid snapshots are saved to */
+  dataDir?: string;
+  /** Save every grid on each mutation so that it can be restored after a restart */
+  persistGrids?: boolean;
+  /** Maximum number of live grids */
+  maxGrids?: number;
+  /** Maximum number of rows across all live grids */
+  maxTotalRows?: number;
+  /** Evict grids that have not been accessed or updated for this many milliseconds */
+  idleTtlMs?: number;
+  /** What to do with idle grids: archive them to the data directory first, or just destroy them */
+  evictionPolicy?: EvictionPolicy;
+  /** Number of undoable changes kept per grid (0 disables history) */
+  historyLimit?: number;
+}
+
+export type EvictionPolicy = 'archive' | 'destroy';
+
+export interface ResourceUsage {
+  grids: number;
+  maxGrids: number | null;
+  totalRows: number;
+  maxTotalRows: number | null;
+  idleTtlMs: number | null;
+  evictionPolicy: EvictionPolicy;
+  evictedGrids: number;
+}
+
+export interface AssetStats {
+  /** CDN requests for AG Grid assets answered from the local package */
+  served: number;
+  /** AG Grid assets requested but not found in the local package */
+  missing: string[];
+  /** Other external requests blocked */
+  blocked: number;
 }
 
-export type ExportFormat = 'csv' | 'excel';
+export type ExportFormat = 'csv' | 'excel' | 'json' | 'ndjson' | 'markdown' | 'html' | 'pdf';
 
 export interface ExportResult {
   data: string;
   format: ExportFormat;
   filename: string;
+  mimeType: string;
+  encoding: 'utf-8' | 'base64';
+}
+
+export interface ExportOptions {
+  /** Export only selected rows */
+  onlySelected?: boolean;
+  /** Export all rows, ignoring the current filter */
+  allRows?: boolean;
+  /** Columns to export, in this order (defaults to the displayed columns) */
+  columnKeys?: string[];
+  /** Use header names or field names for the header row */
+  headerMode?: 'headerName' | 'field';
+  /** Maximum number of rows to export */
+  limit?: number;
+  /** Report title (pdf only) */
+  title?: string;
+  /** Report subtitle (pdf only) */
+  subtitle?: string;
+}
+
+export interface ScreenshotOptions {
+  /** Viewport to render the page at while taking the screenshot */
+  viewport?: {
+    width: number;
+    height: number;
+  };
+  /** Row range to scroll to; when `end` is given the grid is resized to fit the range */
+  rowRange?: {
+    start: number;
+    end?: number;
+  };
+  /** Auto-size all columns to their content before capturing */
+  autoSizeColumns?: boolean;
+}
+
+export interface ExportColumn {
+  field: string;
+  headerName: string;
+  width?: number;
+  type?: string;
+  cellDataType?: string;
+}
+
+export interface ExportDataset {
+  columns: ExportColumn[];
+  rows: Record<string, any>[];
+}
+
+/**
+ * Grid names are matched case-insensitively
+ */
+function isSameGridName(name: string | undefined, candidate: string): boolean {
+  return name !== undefined && name.toLowerCase() === candidate.toLowerCase();
 }
 
 export class GridManagerError extends Error {
@@ -100,18 +516,54 @@ export class GridManager {
   private browser: Browser | null = null;
   private grids: Map<string, GridInstance> = new Map();
   private gridHtmlPath: string;
+  private sharedScriptsPath: string;
+  private agGridPackagePath: string;
+  private assetCache: Map<string, Buffer> = new Map();
+  private assetStats: AssetStats = { served: 0, missing: [], blocked: 0 };
   private isInitialized = false;
   private options: GridManagerOptions;
   private webSocketManager: WebSocketManager | null = null;
+  private isCleaningUp = false;
+  private recoveryPromise: Promise<void> | null = null;
+  private exportStore: ExportStore;
+  private pagePool: PagePool;
+  private persistence: GridPersistence;
+  private evictionTimer: NodeJS.Timeout | null = null;
+  private evictedGridCount = 0;
+  // Grids being created and their rows, counted against the limits until they are live
+  private pendingGrids = 0;
+  private pendingRows = 0;
+  private histories: Map<string, GridHistory> = new Map();
+  private versions: Map<string, GridVersion[]> = new Map();
+  private views: Map<string, GridView[]> = new Map();
+  // Grids whose changes are being undone or redone, so the replay is not recorded again
+  private replayingGrids: Set<string> = new Set();
 
   constructor(options: GridManagerOptions = {}) {
     this.options = {
       headless: true,
       devtools: false,
       viewport: { width: 1920, height: 1080 },
+      exportDir: DEFAULT_EXPORT_DIR,
+      pagePoolSize: DEFAULT_PAGE_POOL_SIZE,
+      dataDir: DEFAULT_DATA_DIR,
+      persistGrids: false,
+      evictionPolicy: 'destroy',
+      historyLimit: DEFAULT_HISTORY_LIMIT,
       ...options,
     };
     this.gridHtmlPath = join(__dirname, '..', 'web', 'grid.html');
+    this.sharedScriptsPath = join(__dirname, '..', 'public', 'js');
+    // Resolved like an import, so it is found wherever the package is installed.
+    // ag-grid-community does not export its package.json, but does export its stylesheets.
+    this.agGridPackagePath = dirname(dirname(require.resolve('ag-grid-community/styles/ag-grid.css')));
+    this.exportStore = new ExportStore(this.options.exportDir);
+    this.persistence = new GridPersistence(this.options.dataDir);
+    this.pagePool = new PagePool(
+      () => this.prepareGridPage(),
+      (page) => this.resetGridPage(page),
+      { size: this.options.pagePoolSize ?? DEFAULT_PAGE_POOL_SIZE }
+    );
   }
 
   /**
@@ -130,22 +582,17 @@ export class GridManager {
     }
 
     try {
-      this.browser = await puppeteer.launch({
-        headless: this.options.headless ?? true,
-        devtools: this.options.devtools ?? false,
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-accelerated-2d-canvas',
-          '--no-first-run',
-          '--no-zygote',
-          '--disable-gpu',
-        ],
-      });
+      await this.launchBrowser();
 
       this.isInitialized = true;
       console.error('GridManager: Browser initialized successfully');
+
+      this.startEvictionTimer();
+
+      // Warm up grid pages in the background
+      this.pagePool.fill().catch((error) => {
+        console.error('GridManager: Failed to warm page pool:', error);
+      });
     } catch (error) {
       throw new GridManagerError(
         'Failed to initialize browser',
@@ -159,7 +606,7 @@ export class GridManager {
   /**
    * Create a new grid instance
    */
-  async createGrid(config: GridConfig): Promise<string> {
+  async createGrid(config: GridConfig, options: CreateGridOptions = {}): Promise<string> {
     if (!this.isInitialized || !this.browser) {
       throw new GridManagerError(
         'GridManager not initialized. Call initialize() first.',
@@ -179,23 +626,55 @@ export class GridManager {
       );
     }
 
-    const gridId = this.generateGridId();
+    if (config.rowIdField) {
+      const rowIdError = this.findRowIdError(config.rowData, config.rowIdField);
+      if (rowIdError) {
+        throw new GridManagerError(
+          `Invalid grid configuration: ${rowIdError}`,
+          'INVALID_CONFIG'
+        );
+      }
+    }
 
-    try {
-      // Create new page
-      const page = await this.browser.newPage();
-      
-      // Set viewport
-      await page.setViewport(this.options.viewport!);
+    if (options.name !== undefined) {
+      this.assertValidGridName(options.name);
+    }
 
-      // Load the grid HTML file
-      const htmlContent = await this.loadGridHtml();
-      await page.setContent(htmlContent, { waitUntil: 'networkidle0' });
+    if (options.id && this.grids.has(options.id)) {
+      throw new GridManagerError(
+        `Grid with ID ${options.id} already exists`,
+        'GRID_ALREADY_EXISTS',
+        options.id
+      );
+    }
 
-      // Wait for AG Grid system to be ready
-      await page.waitForFunction(() => window.createAGGrid !== undefined, {
-        timeout: 10000,
-      });
+    this.assertWithinLimits(config.rowData.length, 1);
+
+    // Computed columns are derived from the row data rather than taken as given
+    if (config.computedColumns?.length) {
+      config = { ...config, rowData: this.computeRows(config, config.rowData) };
+    }
+
+    const gridId = options.id || this.generateGridId();
+
+    // Reserve the grid before the first await so that concurrent creations cannot exceed the limits
+    const reservedRows = config.rowData.length;
+    let reserved = true;
+    const releaseReservation = () => {
+      if (reserved) {
+        reserved = false;
+        this.pendingGrids--;
+        this.pendingRows -= reservedRows;
+      }
+    };
+    this.pendingGrids++;
+    this.pendingRows += reservedRows;
+
+    let page: Page | null = null;
+
+    try {
+      // Take a page with the grid HTML already loaded
+      page = await this.pagePool.acquire();
 
       // Create the grid
       const result = await page.evaluate((config) => {
@@ -209,23 +688,33 @@ export class GridManager {
       // Store grid instance
       const gridInstance: GridInstance = {
         id: gridId,
+        name: options.name,
         page,
         config,
         createdAt: new Date(),
         lastUpdated: new Date(),
+        lastAccessed: new Date(),
         isDestroyed: false,
+        metadata: { ...options.metadata },
       };
 
+      releaseReservation();
       this.grids.set(gridId, gridInstance);
+      await this.persistGrid(gridInstance);
 
       // Emit WebSocket event for grid creation
       if (this.webSocketManager) {
-        this.webSocketManager.onGridCreated(gridId, config, config.rowData);
+        this.webSocketManager.onGridCreated(gridId, config, config.rowData, options.name);
       }
 
       console.error(`GridManager: Grid created successfully with ID: ${gridId}`);
       return gridId;
     } catch (error) {
+      releaseReservation();
+      if (page) {
+        await this.pagePool.release(page).catch(() => undefined);
+      }
+
       throw new GridManagerError(
         'Failed to create grid',
         'GRID_CREATION_FAILED',
@@ -235,11 +724,273 @@ export class GridManager {
     }
   }
 
+  /**
+   * Give a grid a new unique name
+   */
+  async renameGrid(gridId: string, name: string): Promise<RenamedGridInfo> {
+    gridId = this.resolveGridId(gridId);
+    const grid = this.getGridInstance(gridId);
+    this.assertValidGridName(name, gridId);
+
+    const previousName = grid.name;
+    grid.name = name;
+    grid.lastUpdated = new Date();
+    await this.persistGrid(grid);
+
+    if (this.webSocketManager) {
+      this.webSocketManager.onGridRenamed(gridId, name, previousName);
+    }
+
+    console.error(`GridManager: Renamed grid ${gridId} to '${name}'`);
+    return { gridId, name, previousName };
+  }
+
+  /**
+   * Copy a grid into a new grid. The clone records its parent in
+   * `metadata.clonedFrom` and the parent lists its clones in `metadata.clones`.
+   */
+  async cloneGrid(gridId: string, options: CloneGridOptions = {}): Promise<ClonedGridInfo> {
+    gridId = this.resolveGridId(gridId);
+    const source = this.getGridInstance(gridId);
+    const mode = options.mode ?? 'full';
+
+    let rowData: Record<string, any>[];
+    try {
+      await this.captureGridState(source);
+      rowData = mode === 'displayed' ? await this.getDisplayedRows(source) : source.config.rowData;
+    } catch (error) {
+      throw new GridManagerError(
+        'Failed to read the grid to clone',
+        'CLONE_FAILED',
+        gridId,
+        error as Error
+      );
+    }
+
+    const cloneId = await this.createGrid({ ...copyGridConfig(source.config), rowData: [...rowData] }, {
+      name: options.name,
+      metadata: {
+        clonedFrom: { gridId, mode, clonedAt: new Date().toISOString() },
+      },
+    });
+    const clone = this.getGridInstance(cloneId);
+
+    // The displayed rows are already filtered, so only the column state carries over
+    const sourceState = source.lastKnownState;
+    const state: GridViewState | undefined = sourceState && {
+      columnState: sourceState.columnState,
+      filterModel: mode === 'full' ? sourceState.filterModel : {},
+    };
+
+    if (state) {
+      try {
+        await this.applyViewState(clone.page, state);
+        clone.lastKnownState = state;
+        await this.persistGrid(clone);
+      } catch (error) {
+        console.error(`GridManager: Failed to copy column and filter state to clone ${cloneId}:`, error);
+      }
+
+      if (this.webSocketManager && Object.keys(state.filterModel).length > 0) {
+        this.webSocketManager.onGridFiltered(cloneId, state.filterModel, await this.getDisplayedRowCount(clone));
+      }
+    }
+
+    source.metadata.clones = [...(source.metadata.clones ?? []), cloneId];
+    await this.persistGrid(source);
+
+    console.error(`GridManager: Cloned grid ${gridId} into ${cloneId} (${mode}, ${rowData.length} rows)`);
+    return { gridId: cloneId, name: options.name, sourceGridId: gridId, mode, rowCount: rowData.length };
+  }
+
+  /**
+   * Group the rows that pass the current filter and aggregate each group,
+   * optionally creating a new grid for the result
+   */
+  async aggregateGrid(gridId: string, options: AggregateOptions): Promise<AggregationResult> {
+    gridId = this.resolveGridId(gridId);
+    const grid = this.getGridInstance(gridId);
+    const groupBy = options.groupBy ?? [];
+    const { aggregations } = options;
+
+    const columnDefs = new Map(grid.config.columnDefs.map(column => [column.field, column]));
+    const problems: string[] = [];
+    if (aggregations.length === 0) {
+      problems.push('at least one aggregation is required');
+    }
+    for (const field of groupBy) {
+      if (!columnDefs.has(field)) {
+        problems.push(`unknown group-by column '${field}'`);
+      }
+    }
+    for (const spec of aggregations) {
+      if (!spec.field && spec.fn !== 'count') {
+        problems.push(`${spec.fn} requires a field`);
+      } else if (spec.field && !columnDefs.has(spec.field)) {
+        problems.push(`unknown column '${spec.field}' in ${spec.fn}`);
+      }
+    }
+
+    const columns = [...groupBy, ...aggregations.map(getAggregationColumn)];
+    const duplicates = columns.filter((column, index) => columns.indexOf(column) !== index);
+    if (duplicates.length > 0) {
+      problems.push(`duplicate result column(s) ${[...new Set(duplicates)].join(', ')}; name them with 'as'`);
+    }
+
+    if (problems.length > 0) {
+      throw new GridManagerError(
+        `Invalid aggregation: ${problems.join('; ')}. Columns are ${[...columnDefs.keys()].join(', ')}`,
+        'INVALID_AGGREGATION',
+        gridId
+      );
+    }
+
+    let sourceRows: Record<string, any>[];
+    try {
+      sourceRows = await this.getDisplayedRows(grid);
+    } catch (error) {
+      throw new GridManagerError(
+        'Failed to read the filtered rows to aggregate',
+        'AGGREGATION_FAILED',
+        gridId,
+        error as Error
+      );
+    }
+
+    // Summing a text column would otherwise quietly give 0
+    const typeProblems = aggregations
+      .map(spec => findNonNumericAggregation(spec, sourceRows))
+      .filter((problem): problem is string => problem !== null);
+    if (typeProblems.length > 0) {
+      throw new GridManagerError(
+        `Invalid aggregation: ${typeProblems.join('; ')}`,
+        'INVALID_AGGREGATION',
+        gridId
+      );
+    }
+
+    const rows = aggregateRows(sourceRows, groupBy, aggregations);
+    const result: AggregationResult = { gridId, groupBy, columns, rows, sourceRowCount: sourceRows.length };
+
+    if (options.createGrid) {
+      result.createdGridId = await this.createGrid({
+        columnDefs: [
+          ...groupBy.map(field => ({ field, headerName: columnDefs.get(field)!.headerName })),
+          ...aggregations.map(spec => ({
+            field: getAggregationColumn(spec),
+            headerName: getAggregationHeader(spec, spec.field && columnDefs.get(spec.field)!.headerName),
+          })),
+        ],
+        rowData: rows,
+      }, {
+        name: options.name,
+        metadata: {
+          aggregatedFrom: { gridId, groupBy, aggregations, createdAt: new Date().toISOString() },
+        },
+      });
+    }
+
+    console.error(`GridManager: Aggregated ${sourceRows.length} rows of grid ${gridId} into ${rows.length} groups`);
+    return result;
+  }
+
+  /**
+   * Pivot the rows that pass the current filter into a new grid. The pivot
+   * grid records its source and pivot in `metadata.pivotedFrom` and the
+   * source lists its pivot grids in `metadata.pivots`.
+   */
+  async pivotGrid(gridId: string, options: PivotOptions): Promise<PivotResult> {
+    gridId = this.resolveGridId(gridId);
+    const source = this.getGridInstance(gridId);
+    const { rowKeys, pivotField, valueField, fn } = options;
+
+    const columnDefs = new Map(source.config.columnDefs.map(column => [column.field, column]));
+    const problems: string[] = [];
+    if (rowKeys.length === 0) {
+      problems.push('at least one row key is required');
+    }
+    for (const field of [...rowKeys, pivotField]) {
+      if (!columnDefs.has(field)) {
+        problems.push(`unknown column '${field}'`);
+      }
+    }
+    if (rowKeys.includes(pivotField)) {
+      problems.push(`'${pivotField}' cannot be both a row key and the pivot column`);
+    }
+    if (new Set(rowKeys).size !== rowKeys.length) {
+      problems.push('row keys must be distinct');
+    }
+    if (!valueField && fn !== 'count') {
+      problems.push(`${fn} requires a value field`);
+    } else if (valueField && !columnDefs.has(valueField)) {
+      problems.push(`unknown value column '${valueField}'`);
+    }
+
+    if (problems.length > 0) {
+      throw new GridManagerError(
+        `Invalid pivot: ${problems.join('; ')}. Columns are ${[...columnDefs.keys()].join(', ')}`,
+        'INVALID_PIVOT',
+        gridId
+      );
+    }
+
+    let sourceRows: Record<string, any>[];
+    try {
+      sourceRows = await this.getDisplayedRows(source);
+    } catch (error) {
+      throw new GridManagerError(
+        'Failed to read the filtered rows to pivot',
+        'PIVOT_FAILED',
+        gridId,
+        error as Error
+      );
+    }
+
+    const typeProblem = findNonNumericAggregation({ fn, field: valueField }, sourceRows);
+    if (typeProblem) {
+      throw new GridManagerError(`Invalid pivot: ${typeProblem}`, 'INVALID_PIVOT', gridId);
+    }
+
+    const table = buildPivotTable(sourceRows, { rowKeys, pivotField, valueField, fn }, source.config.columnDefs);
+
+    const pivotId = await this.createGrid({
+      columnDefs: table.columnDefs,
+      rowData: table.rows,
+      gridOptions: { pinnedBottomRowData: [table.totals] },
+    }, {
+      name: options.name,
+      metadata: {
+        pivotedFrom: { gridId, rowKeys, pivotField, valueField, fn, createdAt: new Date().toISOString() },
+      },
+    });
+
+    source.metadata.pivots = [...(source.metadata.pivots ?? []), pivotId];
+    await this.persistGrid(source);
+
+    console.error(
+      `GridManager: Pivoted ${sourceRows.length} rows of grid ${gridId} into ${pivotId} ` +
+      `(${table.rows.length} rows, ${table.pivotValues.length} pivot columns)`
+    );
+    return {
+      gridId: pivotId,
+      name: options.name,
+      sourceGridId: gridId,
+      pivotValues: table.pivotValues,
+      columns: table.columnDefs.map(column => column.field),
+      rows: table.rows,
+      totals: table.totals,
+      sourceRowCount: sourceRows.length,
+    };
+  }
+
   /**
    * Update grid data for an existing grid
    */
   async updateGridData(gridId: string, rowData: Record<string, any>[]): Promise<void> {
+    gridId = this.resolveGridId(gridId);
     const grid = this.getGridInstance(gridId);
+    this.assertWithinLimits(rowData.length - grid.config.rowData.length, 0, gridId);
+    rowData = this.computeRows(grid.config, rowData);
 
     try {
       await grid.page.evaluate((newData) => {
@@ -251,8 +1002,12 @@ export class GridManager {
       }, rowData);
 
       // Update stored config
+      this.recordHistory(grid, 'update_grid_data', `Replaced data (${grid.config.rowData.length} → ${rowData.length} rows)`, [
+        { type: 'rowData', before: grid.config.rowData, after: rowData },
+      ]);
       grid.config.rowData = rowData;
       grid.lastUpdated = new Date();
+      await this.persistGrid(grid);
 
       // Emit WebSocket event for data update
       if (this.webSocketManager) {
@@ -271,115 +1026,205 @@ export class GridManager {
   }
 
   /**
-   * Execute any AG Grid API method
+   * Add, update and remove individual rows, keyed by the grid's rowIdField
    */
-  async executeGridMethod(
-    gridId: string,
-    method: string,
-    params?: any[]
-  ): Promise<any> {
+  async applyTransaction(gridId: string, transaction: RowTransaction): Promise<RowTransactionResult> {
+    gridId = this.resolveGridId(gridId);
     const grid = this.getGridInstance(gridId);
 
     try {
-      const result = await grid.page.evaluate(
-        (methodName, methodParams) => {
-          if (!window.gridApi) {
-            throw new Error('Grid API not available');
-          }
-
-          const apiMethod = window.gridApi[methodName];
-          if (typeof apiMethod !== 'function') {
-            throw new Error(`Method '${methodName}' not found on grid API`);
-          }
-
-          return apiMethod.apply(window.gridApi, methodParams || []);
-        },
-        method,
-        params
-      );
-
-      // Emit WebSocket events for specific methods
-      if (this.webSocketManager) {
-        if (method === 'setFilterModel' && params && params[0]) {
-          // Get current displayed row count for filter event
-          const displayedRows = await grid.page.evaluate(() => {
-            return window.gridApi ? window.gridApi.getDisplayedRowCount() : 0;
-          });
-          this.webSocketManager.onGridFiltered(gridId, params[0], displayedRows);
-        } else if (method === 'applyColumnState' && params && params[0]) {
-          this.webSocketManager.onGridSorted(gridId, params[0]);
-        }
-      }
-
-      console.error(`GridManager: Executed method ${method} on grid ${gridId}`);
-      return result;
+      RowTransactionSchema.parse(transaction);
     } catch (error) {
       throw new GridManagerError(
-        `Failed to execute grid method: ${method}`,
-        'METHOD_EXECUTION_FAILED',
+        'Invalid row transaction',
+        'INVALID_TRANSACTION',
         gridId,
         error as Error
       );
     }
-  }
 
-  /**
-   * Export grid data in specified format
-   */
-  async exportGridData(gridId: string, format: ExportFormat): Promise<ExportResult> {
-    const grid = this.getGridInstance(gridId);
+    const rowIdField = grid.config.rowIdField;
+    const add = this.computeRows(grid.config, transaction.add || []);
+    const update = this.computeRows(grid.config, transaction.update || []);
+    const removeKeys = transaction.remove || [];
+
+    if (!rowIdField && (update.length > 0 || removeKeys.length > 0)) {
+      throw new GridManagerError(
+        'Updating or removing rows requires the grid to be created with a rowIdField',
+        'ROW_ID_FIELD_REQUIRED',
+        gridId
+      );
+    }
+
+    // Removals may be given as row objects or as bare row ID values
+    const remove = removeKeys.map(row =>
+      typeof row === 'object' ? row : { [rowIdField!]: row }
+    );
+
+    if (rowIdField) {
+      const existingIds = new Set(grid.config.rowData.map(row => String(row[rowIdField])));
+      const rowIdError =
+        this.findRowIdError(add, rowIdField, existingIds) ||
+        this.findRowIdError(update, rowIdField) ||
+        this.findRowIdError(remove, rowIdField);
+      if (rowIdError) {
+        throw new GridManagerError(
+          `Invalid row transaction: ${rowIdError}`,
+          'INVALID_TRANSACTION',
+          gridId
+        );
+      }
+    }
+
+    this.assertWithinLimits(add.length - remove.length, 0, gridId);
 
-    // Validate format
     try {
-      ExportFormatSchema.parse(format);
+      const counts = await grid.page.evaluate((rowTransaction) => {
+        if (!window.gridApi) {
+          throw new Error('Grid API not available');
+        }
+
+        const result = window.gridApi.applyTransaction(rowTransaction);
+        return {
+          added: result?.add?.length ?? 0,
+          updated: result?.update?.length ?? 0,
+          removed: result?.remove?.length ?? 0,
+        };
+      }, { add, addIndex: transaction.addIndex, update, remove });
+
+      // Keep the stored row data in sync with the grid
+      let rowData = grid.config.rowData;
+      if (rowIdField) {
+        const updatesById = new Map(update.map(row => [String(row[rowIdField]), row]));
+        const removedIds = new Set(remove.map(row => String(row[rowIdField])));
+        rowData = rowData
+          .filter(row => !removedIds.has(String(row[rowIdField])))
+          .map(row => updatesById.get(String(row[rowIdField])) ?? row);
+      }
+      if (add.length > 0) {
+        const index = transaction.addIndex ?? rowData.length;
+        rowData = [...rowData.slice(0, index), ...add, ...rowData.slice(index)];
+      }
+
+      this.recordHistory(grid, 'apply_grid_transaction', `Transaction (+${counts.added} ~${counts.updated} -${counts.removed})`, [
+        { type: 'rowData', before: grid.config.rowData, after: rowData },
+      ]);
+      grid.config.rowData = rowData;
+      grid.lastUpdated = new Date();
+      await this.persistGrid(grid);
+
+      const result: RowTransactionResult = { ...counts, rowCount: rowData.length };
+
+      // Emit WebSocket event for the transaction
+      if (this.webSocketManager) {
+        this.webSocketManager.onGridTransaction(gridId, rowData, result);
+      }
+
+      console.error(`GridManager: Applied transaction to grid ${gridId} (+${counts.added} ~${counts.updated} -${counts.removed})`);
+      return result;
     } catch (error) {
       throw new GridManagerError(
-        'Invalid export format',
-        'INVALID_EXPORT_FORMAT',
+        'Failed to apply row transaction',
+        'TRANSACTION_FAILED',
         gridId,
         error as Error
       );
     }
+  }
+
+  /**
+   * Execute an allowed AG Grid API method (see GRID_METHODS)
+   */
+  async executeGridMethod(
+    gridId: string,
+    method: string,
+    params?: any[]
+  ): Promise<any> {
+    gridId = this.resolveGridId(gridId);
+    const spec = getGridMethodSpec(method);
+    // Reads do not count as activity, so that the dashboard and resources do not keep grids alive
+    const grid = spec?.kind === 'read' ? this.findGridInstance(gridId) : this.getGridInstance(gridId);
+
+    if (!spec) {
+      const suggestions = suggestGridMethods(method);
+      const alternatives = suggestions.length > 0
+        ? `Did you mean: ${suggestions.join(', ')}?`
+        : `Allowed methods: ${Object.keys(GRID_METHODS).join(', ')}`;
+      throw new GridManagerError(
+        `Method '${method}' is not allowed. ${alternatives} Use update_grid_data or apply_grid_transaction to change row data.`,
+        'METHOD_NOT_ALLOWED',
+        gridId
+      );
+    }
+
+    const paramsError = findGridMethodParamsError(spec, params);
+    if (paramsError) {
+      throw new GridManagerError(
+        `Invalid parameters for ${method}: ${paramsError}`,
+        'INVALID_METHOD_PARAMS',
+        gridId
+      );
+    }
+
+    // Column definitions are kept in the grid config, so route them through setColumnDefs
+    if (spec.sync === 'gridOption' && params?.[0] === 'columnDefs') {
+      await this.setColumnDefs(gridId, params[1]);
+      return undefined;
+    }
 
     try {
-      let data: string;
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const filename = `grid-export-${gridId}-${timestamp}.${format}`;
+      // Make sure there is a state to compare against for the history
+      if (spec.sync === 'viewState' && !grid.lastKnownState) {
+        await this.captureGridState(grid);
+      }
+      const stateBefore = grid.lastKnownState;
 
-      if (format === 'csv') {
-        data = await grid.page.evaluate(() => {
+      const result = await grid.page.evaluate(
+        (methodName, methodParams) => {
           if (!window.gridApi) {
             throw new Error('Grid API not available');
           }
 
-          // Get CSV data using AG Grid's built-in export
-          return window.gridApi.getDataAsCsv();
-        });
-      } else if (format === 'excel') {
-        // For Excel format, we'll export as CSV for now
-        // In a real implementation, you might want to use a library like ExcelJS
-        data = await grid.page.evaluate(() => {
-          if (!window.gridApi) {
-            throw new Error('Grid API not available');
+          const apiMethod = window.gridApi[methodName];
+          if (typeof apiMethod !== 'function') {
+            throw new Error(`Method '${methodName}' not found on grid API`);
           }
 
-          return window.gridApi.getDataAsCsv();
-        });
-      } else {
-        throw new Error(`Unsupported export format: ${format}`);
+          return apiMethod.apply(window.gridApi, methodParams || []);
+        },
+        method,
+        params
+      );
+
+      if (spec.sync === 'viewState') {
+        // Remember the resulting column and filter state for crash recovery and persistence
+        await this.captureGridState(grid);
+
+        this.recordHistory(grid, method, `Executed ${method}`, this.diffViewStates(stateBefore, grid.lastKnownState));
+        await this.persistGrid(grid);
+      } else if (spec.sync === 'gridOption' && params) {
+        // Keep the option in the config so rebuilt and restored grids have it
+        grid.config.gridOptions = { ...grid.config.gridOptions, [params[0]]: params[1] };
+        grid.lastUpdated = new Date();
+        await this.persistGrid(grid);
       }
 
-      // Emit WebSocket event for export
-      if (this.webSocketManager) {
-        this.webSocketManager.onGridExported(gridId, format, filename);
+      // Emit WebSocket events for methods the web viewer mirrors
+      if (this.webSocketManager && grid.lastKnownState) {
+        if (spec.event === 'filtered') {
+          const displayedRows = await this.getDisplayedRowCount(grid);
+          this.webSocketManager.onGridFiltered(gridId, grid.lastKnownState.filterModel, displayedRows);
+        } else if (spec.event === 'sorted') {
+          this.emitGridSorted(grid, grid.lastKnownState);
+        }
       }
 
-      console.error(`GridManager: Exported grid ${gridId} as ${format}`);
-      return { data, format, filename };
+      console.error(`GridManager: Executed method ${method} on grid ${gridId}`);
+      return result;
     } catch (error) {
       throw new GridManagerError(
-        `Failed to export grid data as ${format}`,
-        'EXPORT_FAILED',
+        `Failed to execute grid method: ${method}`,
+        'METHOD_EXECUTION_FAILED',
         gridId,
         error as Error
       );
@@ -387,48 +1232,57 @@ export class GridManager {
   }
 
   /**
-   * Get current grid state (filters, sort, selection, etc.)
+   * Replace the column definitions of a grid, keeping its data
    */
-  async getGridState(gridId: string): Promise<GridState> {
+  async setColumnDefs(gridId: string, columnDefs: ColumnDef[]): Promise<void> {
+    gridId = this.resolveGridId(gridId);
     const grid = this.getGridInstance(gridId);
 
     try {
-      const state = await grid.page.evaluate(() => {
+      z.array(ColumnDefSchema).parse(columnDefs);
+    } catch (error) {
+      throw new GridManagerError(
+        'Invalid column definitions',
+        'INVALID_CONFIG',
+        gridId,
+        error as Error
+      );
+    }
+
+    try {
+      await grid.page.evaluate((newColumnDefs) => {
         if (!window.gridApi) {
           throw new Error('Grid API not available');
         }
+        window.gridApi.setGridOption('columnDefs', window.buildColumnDefs(newColumnDefs));
+      }, columnDefs);
 
-        const columnState = window.gridApi.getColumnState();
-        const filterState = window.gridApi.getFilterModel();
-        const selectedRows = window.gridApi.getSelectedRows();
-        const displayedRowCount = window.gridApi.getDisplayedRowCount();
-        
-        // Extract sort state from column state
-        const sortState = columnState
-          .filter((col: any) => col.sort !== null)
-          .map((col: any) => ({
-            colId: col.colId,
-            sort: col.sort,
-            sortIndex: col.sortIndex
-          }))
-          .sort((a: any, b: any) => (a.sortIndex || 0) - (b.sortIndex || 0));
+      // Removing a computed column's column definition removes the computed column
+      const computedColumns = grid.config.computedColumns?.filter(column =>
+        columnDefs.some(columnDef => columnDef.field === column.field)
+      );
+      const changes: HistoryChange[] = [{ type: 'columnDefs', before: grid.config.columnDefs, after: columnDefs }];
+      if (computedColumns?.length !== grid.config.computedColumns?.length) {
+        changes.push({ type: 'computedColumns', before: grid.config.computedColumns, after: computedColumns });
+      }
 
-        return {
-          columnState: columnState,
-          filterState: filterState,
-          sortState: sortState,
-          selectedRows: selectedRows,
-          rowCount: displayedRowCount,
-          displayedRowCount: displayedRowCount,
-        };
-      });
+      this.recordHistory(grid, 'set_column_defs', `Changed column definitions (${grid.config.columnDefs.length} → ${columnDefs.length} columns)`, changes);
+      grid.config.columnDefs = columnDefs;
+      grid.config.computedColumns = computedColumns;
+      grid.lastUpdated = new Date();
+      await this.captureGridState(grid);
+      await this.persistGrid(grid);
 
-      console.error(`GridManager: Retrieved state for grid ${gridId}`);
-      return state;
+      // Emit WebSocket event for the column change
+      if (this.webSocketManager) {
+        this.webSocketManager.onGridColumnsChanged(gridId, columnDefs);
+      }
+
+      console.error(`GridManager: Updated column definitions for grid ${gridId}`);
     } catch (error) {
       throw new GridManagerError(
-        'Failed to get grid state',
-        'GET_STATE_FAILED',
+        'Failed to update column definitions',
+        'UPDATE_COLUMNS_FAILED',
         gridId,
         error as Error
       );
@@ -436,135 +1290,1927 @@ export class GridManager {
   }
 
   /**
-   * Destroy a specific grid instance
+   * Replace the conditional formatting rules of a grid; an empty list removes all formatting
    */
-  async destroyGrid(gridId: string): Promise<void> {
-    const grid = this.grids.get(gridId);
-    if (!grid) {
+  async setConditionalFormatting(gridId: string, rules: FormattingRule[]): Promise<FormattingResult> {
+    gridId = this.resolveGridId(gridId);
+    const grid = this.getGridInstance(gridId);
+    validateFormattingRules(rules, grid.config.columnDefs, grid.config.rowData);
+
+    let matchedRows: number[];
+    try {
+      matchedRows = await grid.page.evaluate((newRules, columnDefs) => {
+        if (!window.gridApi) {
+          throw new Error('Grid API not available');
+        }
+        return window.setFormattingRules(newRules, columnDefs);
+      }, rules, grid.config.columnDefs);
+    } catch (error) {
       throw new GridManagerError(
-        `Grid with ID ${gridId} not found`,
-        'GRID_NOT_FOUND',
-        gridId
+        'Failed to apply formatting rules',
+        'FORMATTING_FAILED',
+        gridId,
+        error as Error
       );
     }
 
-    try {
-      if (!grid.isDestroyed) {
-        // Destroy the grid in the page
-        await grid.page.evaluate(() => {
-          if (window.gridApi) {
-            window.gridApi.destroy();
-          }
-        });
+    grid.config.formattingRules = rules;
+    grid.lastUpdated = new Date();
+    await this.persistGrid(grid);
 
-        // Close the page
-        await grid.page.close();
-        grid.isDestroyed = true;
-      }
+    if (this.webSocketManager) {
+      this.webSocketManager.onGridFormattingChanged(gridId, rules);
+    }
 
-      // Remove from map
-      this.grids.delete(gridId);
+    console.error(`GridManager: Set ${rules.length} formatting rules on grid ${gridId}`);
+    return { gridId, ruleCount: rules.length, matchedRows };
+  }
 
-      // Emit WebSocket event for grid destruction
-      if (this.webSocketManager) {
-        this.webSocketManager.removeGrid(gridId);
-      }
+  /**
+   * Add a column computed from each row with an expression, or redefine an
+   * existing computed column. The column is recomputed whenever the row data
+   * changes through updateGridData or applyTransaction.
+   */
+  async addComputedColumn(gridId: string, column: ComputedColumn): Promise<ComputedColumnResult> {
+    gridId = this.resolveGridId(gridId);
+    const grid = this.getGridInstance(gridId);
+    const { field, expression } = column;
+    const computedColumns = grid.config.computedColumns ?? [];
+    const replaced = computedColumns.some(existing => existing.field === field);
 
-      console.error(`GridManager: Destroyed grid ${gridId}`);
+    if (!COMPUTED_FIELD_PATTERN.test(field)) {
+      throw new GridManagerError(
+        `Invalid computed column field '${field}': use letters, digits and underscores, starting with a letter or underscore`,
+        'INVALID_COMPUTED_COLUMN',
+        gridId
+      );
+    }
+    if (!replaced && grid.config.columnDefs.some(columnDef => columnDef.field === field)) {
+      throw new GridManagerError(
+        `Grid ${gridId} already has a column '${field}' that is not computed`,
+        'INVALID_COMPUTED_COLUMN',
+        gridId
+      );
+    }
+
+    const fields = grid.config.columnDefs.map(columnDef => columnDef.field);
+    let compiled: CompiledExpression;
+    try {
+      compiled = compileExpression(expression, getComputedColumnInputs(fields, computedColumns, field));
     } catch (error) {
       throw new GridManagerError(
-        'Failed to destroy grid',
-        'DESTROY_FAILED',
+        `Invalid expression: ${(error as Error).message}`,
+        'INVALID_EXPRESSION',
         gridId,
         error as Error
       );
     }
-  }
 
-  /**
-   * Clean up all resources
-   */
-  async cleanup(): Promise<void> {
-    console.error('GridManager: Starting cleanup...');
-
-    // Destroy all grids
-    const gridIds = Array.from(this.grids.keys());
-    for (const gridId of gridIds) {
+    const newComputedColumns = replaced
+      ? computedColumns.map(existing => (existing.field === field ? column : existing))
+      : [...computedColumns, column];
+    const columnDefs = replaced
+      ? grid.config.columnDefs.map(columnDef => (columnDef.field === field && column.headerName
+        ? { ...columnDef, headerName: column.headerName }
+        : columnDef))
+      : [...grid.config.columnDefs, { field, headerName: column.headerName }];
+    const config: GridConfig = { ...grid.config, columnDefs, computedColumns: newComputedColumns };
+    const rowData = this.computeRows(config, grid.config.rowData);
+
+    // Count the rows the expression could not compute, which applyComputedColumns leaves empty
+    let errorCount = 0;
+    for (const row of rowData) {
       try {
-        await this.destroyGrid(gridId);
+        compiled.evaluate(row);
       } catch (error) {
-        console.error(`Error destroying grid ${gridId}:`, error);
+        if (!(error instanceof ExpressionEvaluationError)) {
+          throw error;
+        }
+        errorCount++;
       }
     }
 
-    // Close browser
-    if (this.browser) {
-      try {
-        await this.browser.close();
-        this.browser = null;
-      } catch (error) {
-        console.error('Error closing browser:', error);
-      }
+    try {
+      await grid.page.evaluate((newColumnDefs, newRowData) => {
+        if (!window.gridApi) {
+          throw new Error('Grid API not available');
+        }
+        window.gridApi.setGridOption('columnDefs', window.buildColumnDefs(newColumnDefs));
+        window.gridApi.setGridOption('rowData', newRowData);
+      }, columnDefs, rowData);
+    } catch (error) {
+      throw new GridManagerError(
+        'Failed to add computed column',
+        'COMPUTED_COLUMN_FAILED',
+        gridId,
+        error as Error
+      );
     }
 
-    this.isInitialized = false;
-    console.error('GridManager: Cleanup completed');
-  }
+    // Computed columns are restored first on undo, so the restored rows are computed with them
+    this.recordHistory(grid, 'add_computed_column', `${replaced ? 'Redefined' : 'Added'} computed column ${field} = ${expression}`, [
+      { type: 'rowData', before: grid.config.rowData, after: rowData },
+      { type: 'columnDefs', before: grid.config.columnDefs, after: columnDefs },
+      { type: 'computedColumns', before: grid.config.computedColumns, after: newComputedColumns },
+    ]);
+    grid.config = { ...config, rowData };
+    grid.lastUpdated = new Date();
+    await this.captureGridState(grid);
+    await this.persistGrid(grid);
+
+    if (this.webSocketManager) {
+      this.webSocketManager.onGridColumnsChanged(gridId, columnDefs);
+      this.webSocketManager.onGridDataUpdated(gridId, rowData);
+    }
 
-  /**
-   * Get list of active grids
-   */
-  getActiveGrids(): string[] {
-    return Array.from(this.grids.keys()).filter(
-      (id) => !this.grids.get(id)?.isDestroyed
-    );
+    console.error(`GridManager: ${replaced ? 'Redefined' : 'Added'} computed column ${field} on grid ${gridId}`);
+    return {
+      gridId,
+      field,
+      expression,
+      inputs: compiled.fields,
+      replaced,
+      rowCount: rowData.length,
+      errorCount,
+      sample: rowData.slice(0, COMPUTED_SAMPLE_SIZE).map(row => row[field]),
+    };
   }
 
   /**
-   * Get grid information
+   * Revert the most recent recorded change of a grid
    */
-  getGridInfo(gridId: string): Omit<GridInstance, 'page'> {
+  async undoGridChange(gridId: string): Promise<HistoryStepResult> {
+    gridId = this.resolveGridId(gridId);
     const grid = this.getGridInstance(gridId);
-    
-    return {
-      id: grid.id,
-      config: grid.config,
-      createdAt: grid.createdAt,
-      lastUpdated: grid.lastUpdated,
-      isDestroyed: grid.isDestroyed,
-    };
-  }
-
-  // Private helper methods
+    const history = this.getHistory(gridId);
+    const entry = history.peekUndo();
 
-  private getGridInstance(gridId: string): GridInstance {
-    const grid = this.grids.get(gridId);
-    if (!grid) {
+    if (!entry) {
       throw new GridManagerError(
-        `Grid with ID ${gridId} not found`,
-        'GRID_NOT_FOUND',
+        `Grid ${gridId} has no changes to undo`,
+        'NOTHING_TO_UNDO',
         gridId
       );
     }
 
-    if (grid.isDestroyed) {
+    // Revert changes in the reverse order they were made
+    await this.replayHistory(grid, [...entry.changes].reverse().map(change => ({
+      type: change.type,
+      value: change.before,
+    })));
+    history.commitUndo();
+
+    this.webSocketManager?.onGridHistoryChanged(gridId, 'undo', entry.description);
+    console.error(`GridManager: Undid "${entry.description}" on grid ${gridId}`);
+    return { gridId, entry: summarizeEntry(entry), history: history.getSummary() };
+  }
+
+  /**
+   * Re-apply the most recently undone change of a grid
+   */
+  async redoGridChange(gridId: string): Promise<HistoryStepResult> {
+    gridId = this.resolveGridId(gridId);
+    const grid = this.getGridInstance(gridId);
+    const history = this.getHistory(gridId);
+    const entry = history.peekRedo();
+
+    if (!entry) {
       throw new GridManagerError(
-        `Grid with ID ${gridId} has been destroyed`,
-        'GRID_DESTROYED',
+        `Grid ${gridId} has no changes to redo`,
+        'NOTHING_TO_REDO',
         gridId
       );
     }
 
-    return grid;
+    await this.replayHistory(grid, entry.changes.map(change => ({
+      type: change.type,
+      value: change.after,
+    })));
+    history.commitRedo();
+
+    this.webSocketManager?.onGridHistoryChanged(gridId, 'redo', entry.description);
+    console.error(`GridManager: Redid "${entry.description}" on grid ${gridId}`);
+    return { gridId, entry: summarizeEntry(entry), history: history.getSummary() };
   }
 
-  private generateGridId(): string {
-    return `grid_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  /**
+   * Get the undo and redo history of a grid
+   */
+  getGridHistory(gridId: string): GridHistorySummary {
+    gridId = this.resolveGridId(gridId);
+    this.getGridInstance(gridId);
+    return this.getHistory(gridId).getSummary();
   }
 
-  private async loadGridHtml(): Promise<string> {
-    try {
-      return await readFile(this.gridHtmlPath, 'utf-8');
+  /**
+   * Tag the current configuration and data of a grid as a named version
+   */
+  async tagGridVersion(gridId: string, name: string, description?: string): Promise<GridVersionInfo> {
+    gridId = this.resolveGridId(gridId);
+    const grid = this.getGridInstance(gridId);
+    const trimmedName = name.trim();
+
+    if (!trimmedName || trimmedName === CURRENT_VERSION) {
+      throw new GridManagerError(
+        `Invalid version name '${name}'; '${CURRENT_VERSION}' is reserved for the live grid`,
+        'INVALID_VERSION_NAME',
+        gridId
+      );
+    }
+
+    const versions = this.versions.get(gridId) || [];
+    if (versions.some(version => version.name === trimmedName)) {
+      throw new GridManagerError(
+        `Grid ${gridId} already has a version named '${trimmedName}'`,
+        'VERSION_ALREADY_EXISTS',
+        gridId
+      );
+    }
+
+    const version: GridVersion = {
+      name: trimmedName,
+      description,
+      createdAt: new Date().toISOString(),
+      config: copyGridConfig(grid.config),
+    };
+    versions.push(version);
+    this.versions.set(gridId, versions);
+    await this.persistGrid(grid);
+
+    console.error(`GridManager: Tagged version '${trimmedName}' of grid ${gridId}`);
+    return describeVersion(version);
+  }
+
+  /**
+   * List the tagged versions of a grid, oldest first
+   */
+  listGridVersions(gridId: string): GridVersionInfo[] {
+    gridId = this.resolveGridId(gridId);
+    this.getGridInstance(gridId);
+    return (this.versions.get(gridId) || []).map(describeVersion);
+  }
+
+  /**
+   * Compare two versions of a grid; use 'current' for the live grid
+   */
+  diffGridVersions(gridId: string, from: string, to: string, options: DiffOptions = {}): GridDiff {
+    gridId = this.resolveGridId(gridId);
+    const grid = this.findGridInstance(gridId);
+    const keyField = options.keyField || grid.config.rowIdField;
+
+    if (!keyField) {
+      throw new GridManagerError(
+        'Diffing versions requires a keyField, or a grid created with a rowIdField',
+        'KEY_FIELD_REQUIRED',
+        gridId
+      );
+    }
+
+    const resolveVersion = (name: string): { name: string; config: GridConfig } => {
+      if (name === CURRENT_VERSION) {
+        return { name, config: grid.config };
+      }
+
+      const versions = this.versions.get(gridId) || [];
+      const version = versions.find(candidate => candidate.name === name);
+      if (!version) {
+        const available = [...versions.map(candidate => candidate.name), CURRENT_VERSION];
+        throw new GridManagerError(
+          `Grid ${gridId} has no version named '${name}'. Available versions: ${available.join(', ')}`,
+          'VERSION_NOT_FOUND',
+          gridId
+        );
+      }
+      return { name, config: version.config };
+    };
+
+    const fromVersion = resolveVersion(from);
+    const toVersion = resolveVersion(to);
+
+    try {
+      return diffGridConfigs(fromVersion, toVersion, keyField, options.limit ?? DEFAULT_DIFF_ROW_LIMIT);
+    } catch (error) {
+      throw new GridManagerError(
+        `Failed to diff versions: ${(error as Error).message}`,
+        'DIFF_FAILED',
+        gridId,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Save the current column state and filter model of a grid as a named view
+   */
+  async saveGridView(gridId: string, name: string, options: SaveViewOptions = {}): Promise<GridViewInfo> {
+    gridId = this.resolveGridId(gridId);
+    const grid = this.getGridInstance(gridId);
+    const trimmedName = name.trim();
+
+    if (!trimmedName) {
+      throw new GridManagerError('View name must not be empty', 'INVALID_VIEW_NAME', gridId);
+    }
+
+    const views = this.views.get(gridId) || [];
+    const existingIndex = views.findIndex(view => view.name === trimmedName);
+    if (existingIndex !== -1 && !options.overwrite) {
+      throw new GridManagerError(
+        `Grid ${gridId} already has a view named '${trimmedName}'; set overwrite to replace it`,
+        'VIEW_ALREADY_EXISTS',
+        gridId
+      );
+    }
+
+    await this.captureGridState(grid);
+    if (!grid.lastKnownState) {
+      throw new GridManagerError(
+        `Failed to read the column and filter state of grid ${gridId}`,
+        'SAVE_VIEW_FAILED',
+        gridId
+      );
+    }
+
+    const view: GridView = {
+      name: trimmedName,
+      description: options.description,
+      createdAt: new Date().toISOString(),
+      state: grid.lastKnownState,
+    };
+    if (existingIndex !== -1) {
+      views[existingIndex] = view;
+    } else {
+      views.push(view);
+    }
+    this.views.set(gridId, views);
+    await this.persistGrid(grid);
+
+    this.webSocketManager?.onGridViewsChanged(gridId, views);
+
+    console.error(`GridManager: Saved view '${trimmedName}' of grid ${gridId}`);
+    return describeView(view);
+  }
+
+  /**
+   * Restore the column state and filter model saved in a view
+   */
+  async applyGridView(gridId: string, name: string): Promise<AppliedViewInfo> {
+    gridId = this.resolveGridId(gridId);
+    const grid = this.getGridInstance(gridId);
+    const view = this.findGridView(gridId, name);
+
+    try {
+      if (!grid.lastKnownState) {
+        await this.captureGridState(grid);
+      }
+      const stateBefore = grid.lastKnownState;
+
+      await this.applyViewState(grid.page, view.state);
+      await this.captureGridState(grid);
+
+      this.recordHistory(grid, 'apply_grid_view', `Applied view '${view.name}'`, this.diffViewStates(stateBefore, grid.lastKnownState));
+      await this.persistGrid(grid);
+
+      const displayedRowCount = await this.getDisplayedRowCount(grid);
+      if (this.webSocketManager && grid.lastKnownState) {
+        this.webSocketManager.onGridFiltered(gridId, grid.lastKnownState.filterModel, displayedRowCount);
+        this.emitGridSorted(grid, grid.lastKnownState);
+      }
+
+      console.error(`GridManager: Applied view '${view.name}' to grid ${gridId}`);
+      return { gridId, view: describeView(view), displayedRowCount };
+    } catch (error) {
+      throw new GridManagerError(
+        `Failed to apply view '${view.name}'`,
+        'APPLY_VIEW_FAILED',
+        gridId,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * List the saved views of a grid, oldest first
+   */
+  listGridViews(gridId: string): GridViewInfo[] {
+    return this.getGridViews(gridId).map(describeView);
+  }
+
+  /**
+   * Get the saved views of a grid including their state
+   */
+  getGridViews(gridId: string): GridView[] {
+    gridId = this.resolveGridId(gridId);
+    this.findGridInstance(gridId);
+    return this.views.get(gridId) || [];
+  }
+
+  /**
+   * Delete a saved view
+   */
+  async deleteGridView(gridId: string, name: string): Promise<void> {
+    gridId = this.resolveGridId(gridId);
+    const grid = this.getGridInstance(gridId);
+    const view = this.findGridView(gridId, name);
+
+    const views = (this.views.get(gridId) || []).filter(candidate => candidate !== view);
+    this.views.set(gridId, views);
+    await this.persistGrid(grid);
+
+    this.webSocketManager?.onGridViewsChanged(gridId, views);
+
+    console.error(`GridManager: Deleted view '${view.name}' of grid ${gridId}`);
+  }
+
+  /**
+   * Run a restricted SQL query (see grid-query.ts) against the grid's rows.
+   * When the condition can be expressed as AG Grid filters, the filters,
+   * sort and visible columns are applied to the grid as well.
+   */
+  async queryGrid(gridId: string, sql: string, options: QueryOptions = {}): Promise<QueryResult> {
+    gridId = this.resolveGridId(gridId);
+    const grid = this.getGridInstance(gridId);
+    const { columnDefs, rowData } = grid.config;
+
+    let query: GridQuery;
+    try {
+      query = parseGridQuery(sql, columnDefs.map(column => column.field));
+    } catch (error) {
+      throw new GridManagerError(
+        `Invalid query: ${(error as Error).message}`,
+        'INVALID_QUERY',
+        gridId,
+        error as Error
+      );
+    }
+
+    const { rows, matchedRows } = runGridQuery(query, rowData);
+    const result: QueryResult = {
+      gridId,
+      columns: query.columns.length > 0 ? query.columns : columnDefs.map(column => column.field),
+      rows,
+      matchedRows,
+      returnedRows: rows.length,
+      truncated: rows.length < matchedRows,
+      grid: { applied: false },
+    };
+
+    if (options.apply === false) {
+      result.grid.reason = 'apply was set to false';
+      return result;
+    }
+
+    const kinds: Record<string, QueryColumnKind> = {};
+    const colIds: Record<string, string> = {};
+    for (const column of columnDefs) {
+      kinds[column.field] = inferQueryColumnKind(column, rowData);
+      colIds[column.field] = column.colId ?? column.field;
+    }
+
+    const filter = translateQueryFilter(query, kinds, colIds);
+    if (!filter.translatable) {
+      result.grid.reason = `The grid was left unchanged: ${filter.reason}`;
+      return result;
+    }
+
+    try {
+      if (!grid.lastKnownState) {
+        await this.captureGridState(grid);
+      }
+      const stateBefore = grid.lastKnownState;
+      const columnOrder = stateBefore
+        ? stateBefore.columnState.map(column => column.colId)
+        : columnDefs.map(column => colIds[column.field]);
+      const state: GridViewState = {
+        columnState: buildQueryColumnState(query, columnOrder, colIds),
+        filterModel: filter.filterModel,
+      };
+
+      await this.applyViewState(grid.page, state);
+
+      // Keep the grid as it was if AG Grid's filters disagree with the query
+      const displayedRowCount = await this.getDisplayedRowCount(grid);
+      if (displayedRowCount !== matchedRows) {
+        if (stateBefore) {
+          await this.applyViewState(grid.page, stateBefore);
+        }
+        result.grid.reason = `The grid was left unchanged: its filters matched ${displayedRowCount} rows instead of ${matchedRows}`;
+        return result;
+      }
+
+      await this.captureGridState(grid);
+      this.recordHistory(grid, 'query_grid', `Queried: ${sql}`, this.diffViewStates(stateBefore, grid.lastKnownState));
+      await this.persistGrid(grid);
+
+      if (this.webSocketManager && grid.lastKnownState) {
+        this.webSocketManager.onGridFiltered(gridId, grid.lastKnownState.filterModel, displayedRowCount);
+        this.emitGridSorted(grid, grid.lastKnownState);
+      }
+
+      result.grid = { applied: true, filterModel: state.filterModel, columnState: state.columnState };
+      console.error(`GridManager: Applied query to grid ${gridId} (${matchedRows} rows)`);
+      return result;
+    } catch (error) {
+      throw new GridManagerError(
+        'Failed to apply query to the grid',
+        'QUERY_FAILED',
+        gridId,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Export grid data in specified format
+   */
+  async exportGridData(
+    gridId: string,
+    format: ExportFormat,
+    options: ExportOptions = {}
+  ): Promise<ExportResult> {
+    gridId = this.resolveGridId(gridId);
+    const grid = this.getGridInstance(gridId);
+
+    // Validate format
+    try {
+      ExportFormatSchema.parse(format);
+    } catch (error) {
+      throw new GridManagerError(
+        'Invalid export format',
+        'INVALID_EXPORT_FORMAT',
+        gridId,
+        error as Error
+      );
+    }
+
+    // Validate options
+    try {
+      ExportOptionsSchema.parse(options);
+    } catch (error) {
+      throw new GridManagerError(
+        'Invalid export options',
+        'INVALID_EXPORT_OPTIONS',
+        gridId,
+        error as Error
+      );
+    }
+
+    if (options.columnKeys) {
+      const knownFields = new Set(grid.config.columnDefs.map(col => col.field));
+      const unknownKeys = options.columnKeys.filter(key => !knownFields.has(key));
+      if (unknownKeys.length > 0) {
+        throw new GridManagerError(
+          `Unknown export columns: ${unknownKeys.join(', ')}. Available columns: ${Array.from(knownFields).join(', ')}`,
+          'INVALID_EXPORT_OPTIONS',
+          gridId
+        );
+      }
+    }
+
+    try {
+      let data: string;
+      let encoding: ExportResult['encoding'] = 'utf-8';
+      const { extension, mimeType } = EXPORT_FORMAT_DETAILS[format];
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const filename = `grid-export-${gridId}-${timestamp}.${extension}`;
+
+      if (format === 'csv') {
+        data = await grid.page.evaluate((exportOptions) => {
+          if (!window.gridApi) {
+            throw new Error('Grid API not available');
+          }
+
+          // Row limit is enforced by skipping rows once enough have been exported
+          let exportedRowCount = 0;
+
+          // Get CSV data using AG Grid's built-in export
+          return window.gridApi.getDataAsCsv({
+            onlySelected: exportOptions.onlySelected,
+            exportedRows: exportOptions.allRows ? 'all' : 'filteredAndSorted',
+            columnKeys: exportOptions.columnKeys,
+            processHeaderCallback: exportOptions.headerMode === 'field'
+              ? (params: any) => params.column.getColDef().field || params.column.getColId()
+              : undefined,
+            shouldRowBeSkipped: exportOptions.limit
+              ? (params: any) => {
+                  if (exportOptions.onlySelected && !params.node.isSelected()) {
+                    return true;
+                  }
+                  if (exportedRowCount >= exportOptions.limit!) {
+                    return true;
+                  }
+                  exportedRowCount++;
+                  return false;
+                }
+              : undefined,
+          });
+        }, options);
+      } else {
+        // All other formats are rendered from the exported columns and rows
+        const dataset = await this.collectExportDataset(grid, options);
+
+        switch (format) {
+          case 'excel':
+            data = (await buildXlsxWorkbook(dataset)).toString('base64');
+            encoding = 'base64';
+            break;
+          case 'json':
+            data = formatJson(dataset);
+            break;
+          case 'ndjson':
+            data = formatNdjson(dataset);
+            break;
+          case 'markdown':
+            data = formatMarkdown(dataset);
+            break;
+          case 'html':
+            data = formatHtml(dataset, `Grid ${gridId}`);
+            break;
+          case 'pdf':
+            data = (await this.renderPdfReport(grid, dataset, options)).toString('base64');
+            encoding = 'base64';
+            break;
+          default:
+            throw new Error(`Unsupported export format: ${format}`);
+        }
+      }
+
+      // Emit WebSocket event for export
+      if (this.webSocketManager) {
+        this.webSocketManager.onGridExported(gridId, format, filename);
+      }
+
+      console.error(`GridManager: Exported grid ${gridId} as ${format}`);
+      return { data, format, filename, mimeType, encoding };
+    } catch (error) {
+      throw new GridManagerError(
+        `Failed to export grid data as ${format}`,
+        'EXPORT_FAILED',
+        gridId,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Write an export result to the export store
+   * @param filename - Requested filename (without extension); defaults to the generated export filename
+   */
+  async saveExport(gridId: string, exportResult: ExportResult, filename?: string): Promise<StoredExport> {
+    gridId = this.resolveGridId(gridId);
+    this.getGridInstance(gridId);
+
+    try {
+      const stored = await this.exportStore.save(gridId, exportResult, filename);
+      console.error(`GridManager: Saved export for grid ${gridId} to ${stored.path}`);
+      return stored;
+    } catch (error) {
+      throw new GridManagerError(
+        'Failed to save export file',
+        'EXPORT_SAVE_FAILED',
+        gridId,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Get the store export files are written to
+   */
+  getExportStore(): ExportStore {
+    return this.exportStore;
+  }
+
+  /**
+   * Render the grid container to a PNG image
+   * @returns The PNG image as a base64 string
+   */
+  async screenshotGrid(gridId: string, options: ScreenshotOptions = {}): Promise<string> {
+    gridId = this.resolveGridId(gridId);
+    const grid = this.getGridInstance(gridId);
+    // Column widths and scroll position changed for the capture, restored afterwards
+    let layout: { columnState: any[]; firstRowIndex: number } | undefined;
+
+    try {
+      if (options.viewport) {
+        await grid.page.setViewport(options.viewport);
+      }
+
+      if (options.autoSizeColumns || options.rowRange) {
+        layout = await grid.page.evaluate(() => ({
+          columnState: window.gridApi ? window.gridApi.getColumnState() : [],
+          firstRowIndex: window.gridApi ? window.gridApi.getFirstDisplayedRowIndex() : 0,
+        }));
+      }
+
+      await grid.page.evaluate(async (screenshotOptions) => {
+        if (!window.gridApi) {
+          throw new Error('Grid API not available');
+        }
+
+        const api = window.gridApi;
+        const container = document.getElementById('gridContainer');
+        if (!container) {
+          throw new Error('Grid container element not found');
+        }
+
+        if (screenshotOptions.autoSizeColumns) {
+          api.autoSizeAllColumns();
+        }
+
+        const range = screenshotOptions.rowRange;
+        if (range) {
+          const lastRowIndex = api.getDisplayedRowCount() - 1;
+          const start = Math.max(0, Math.min(range.start, lastRowIndex));
+
+          if (range.end !== undefined && range.end >= start) {
+            // Grow or shrink the container so that exactly the requested rows fit
+            const sizes = api.getSizesForCurrentTheme();
+            const headerHeight = container.querySelector('.ag-header')?.getBoundingClientRect().height ?? sizes.headerHeight;
+            const visibleRows = Math.min(range.end, lastRowIndex) - start + 1;
+            container.dataset.originalHeight = container.style.height;
+            container.style.height = `${Math.ceil(headerHeight + visibleRows * sizes.rowHeight + 2)}px`;
+          }
+
+          api.ensureIndexVisible(start, 'top');
+        }
+
+        // Give the grid two frames to render the scrolled and resized rows
+        await new Promise<void>(resolve => requestAnimationFrame(() => requestAnimationFrame(() => resolve())));
+      }, options);
+
+      const container = await grid.page.$('#gridContainer');
+      if (!container) {
+        throw new Error('Grid container element not found');
+      }
+
+      const image = await container.screenshot({ type: 'png', encoding: 'base64' });
+
+      console.error(`GridManager: Captured screenshot of grid ${gridId}`);
+      return image as string;
+    } catch (error) {
+      throw new GridManagerError(
+        'Failed to capture grid screenshot',
+        'SCREENSHOT_FAILED',
+        gridId,
+        error as Error
+      );
+    } finally {
+      // Restore the page layout used by the other grid operations
+      try {
+        await grid.page.evaluate((savedLayout) => {
+          const container = document.getElementById('gridContainer');
+          if (container && container.dataset.originalHeight !== undefined) {
+            container.style.height = container.dataset.originalHeight;
+            delete container.dataset.originalHeight;
+          }
+          if (savedLayout && window.gridApi) {
+            window.gridApi.applyColumnState({ state: savedLayout.columnState, applyOrder: true });
+            if (window.gridApi.getDisplayedRowCount() > savedLayout.firstRowIndex) {
+              window.gridApi.ensureIndexVisible(savedLayout.firstRowIndex, 'top');
+            }
+          }
+        }, layout);
+        if (options.viewport) {
+          await grid.page.setViewport(this.options.viewport!);
+        }
+      } catch (restoreError) {
+        console.error(`GridManager: Failed to restore page after screenshot of grid ${gridId}:`, restoreError);
+      }
+    }
+  }
+
+  /**
+   * Get current grid state (filters, sort, selection, etc.)
+   */
+  async getGridState(gridId: string): Promise<GridState> {
+    gridId = this.resolveGridId(gridId);
+    const grid = this.findGridInstance(gridId);
+
+    try {
+      const state = await grid.page.evaluate(() => {
+        if (!window.gridApi) {
+          throw new Error('Grid API not available');
+        }
+
+        const columnState = window.gridApi.getColumnState();
+        const filterState = window.gridApi.getFilterModel();
+        const selectedRows = window.gridApi.getSelectedRows();
+        const displayedRowCount = window.gridApi.getDisplayedRowCount();
+        
+        // Extract sort state from column state
+        const sortState = columnState
+          .filter((col: any) => col.sort !== null)
+          .map((col: any) => ({
+            colId: col.colId,
+            sort: col.sort,
+            sortIndex: col.sortIndex
+          }))
+          .sort((a: any, b: any) => (a.sortIndex || 0) - (b.sortIndex || 0));
+
+        return {
+          columnState: columnState,
+          filterState: filterState,
+          sortState: sortState,
+          selectedRows: selectedRows,
+          rowCount: displayedRowCount,
+          displayedRowCount: displayedRowCount,
+        };
+      });
+
+      console.error(`GridManager: Retrieved state for grid ${gridId}`);
+      return state;
+    } catch (error) {
+      throw new GridManagerError(
+        'Failed to get grid state',
+        'GET_STATE_FAILED',
+        gridId,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Get the data of the rows that pass the current filter, in display order
+   */
+  async getDisplayedRowData(gridId: string): Promise<Record<string, any>[]> {
+    gridId = this.resolveGridId(gridId);
+    const grid = this.findGridInstance(gridId);
+
+    try {
+      return await this.getDisplayedRows(grid);
+    } catch (error) {
+      throw new GridManagerError(
+        'Failed to read displayed rows',
+        'GET_STATE_FAILED',
+        gridId,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Destroy a specific grid instance
+   */
+  async destroyGrid(gridId: string, options: { keepSnapshot?: boolean; keepExports?: boolean } = {}): Promise<void> {
+    gridId = this.resolveGridId(gridId);
+    const grid = this.grids.get(gridId);
+    if (!grid) {
+      throw new GridManagerError(
+        `Grid with ID ${gridId} not found`,
+        'GRID_NOT_FOUND',
+        gridId
+      );
+    }
+
+    try {
+      if (!grid.isDestroyed) {
+        // Reset the page and return it to the pool (or close it if the pool is full)
+        grid.isDestroyed = true;
+        await this.pagePool.release(grid.page);
+      }
+
+      // Remove from map
+      this.grids.delete(gridId);
+      this.histories.delete(gridId);
+      this.versions.delete(gridId);
+      this.views.delete(gridId);
+
+      if (this.options.persistGrids && !this.isCleaningUp && !options.keepSnapshot) {
+        await this.persistence.remove(gridId);
+      }
+
+      // Exports go with their grid, except for persisted grids that outlive a shutdown
+      if (!options.keepExports && !(this.isCleaningUp && this.options.persistGrids)) {
+        await this.exportStore.removeGrid(gridId);
+      }
+
+      // Emit WebSocket event for grid destruction
+      if (this.webSocketManager) {
+        this.webSocketManager.removeGrid(gridId);
+      }
+
+      console.error(`GridManager: Destroyed grid ${gridId}`);
+    } catch (error) {
+      throw new GridManagerError(
+        'Failed to destroy grid',
+        'DESTROY_FAILED',
+        gridId,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Save a snapshot of a grid to the data directory
+   */
+  async saveGrid(gridId: string): Promise<SavedGridInfo> {
+    gridId = this.resolveGridId(gridId);
+    const grid = this.getGridInstance(gridId);
+
+    try {
+      await this.captureGridState(grid);
+      const snapshot = this.buildSnapshot(grid);
+      const path = await this.persistence.save(snapshot);
+
+      console.error(`GridManager: Saved grid ${gridId} to ${path}`);
+      return { gridId, path, savedAt: snapshot.savedAt };
+    } catch (error) {
+      throw new GridManagerError(
+        'Failed to save grid',
+        'SAVE_FAILED',
+        gridId,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Recreate a grid from its saved snapshot, replacing the live grid if it exists
+   */
+  async restoreGrid(gridId: string): Promise<string> {
+    gridId = this.resolveGridId(gridId);
+    let snapshot: GridSnapshot | null;
+    try {
+      snapshot = await this.persistence.load(gridId);
+      if (!snapshot) {
+        // Saved grids can also be restored by name
+        const snapshots = await this.persistence.loadAll();
+        snapshot = snapshots.find(candidate => isSameGridName(candidate.name, gridId)) ?? null;
+      }
+    } catch (error) {
+      throw new GridManagerError(
+        'Failed to read grid snapshot',
+        'RESTORE_FAILED',
+        gridId,
+        error as Error
+      );
+    }
+
+    if (!snapshot) {
+      const savedGridIds = await this.persistence.list().catch(() => []);
+      throw new GridManagerError(
+        `No saved snapshot for grid ${gridId}. Saved grids: ${savedGridIds.join(', ') || 'none'}`,
+        'SNAPSHOT_NOT_FOUND',
+        gridId
+      );
+    }
+
+    // Keep the snapshot on disk until the grid has been recreated from it
+    if (this.grids.has(snapshot.id)) {
+      await this.destroyGrid(snapshot.id, { keepSnapshot: true, keepExports: true });
+    }
+
+    return this.restoreFromSnapshot(snapshot);
+  }
+
+  /**
+   * Recreate all persisted grids that are not live yet, keeping their IDs
+   * @returns IDs of the restored grids
+   */
+  async restorePersistedGrids(): Promise<string[]> {
+    if (!this.options.persistGrids) {
+      return [];
+    }
+
+    const snapshots = await this.persistence.loadAll();
+    const restored: string[] = [];
+
+    for (const snapshot of snapshots) {
+      if (this.grids.has(snapshot.id)) {
+        continue;
+      }
+
+      try {
+        restored.push(await this.restoreFromSnapshot(snapshot));
+      } catch (error) {
+        console.error(`GridManager: Failed to restore grid ${snapshot.id}:`, error);
+      }
+    }
+
+    console.error(`GridManager: Restored ${restored.length} persisted grid(s)`);
+    return restored;
+  }
+
+  /**
+   * Clean up all resources
+   */
+  async cleanup(): Promise<void> {
+    console.error('GridManager: Starting cleanup...');
+    this.isCleaningUp = true;
+    this.stopEvictionTimer();
+
+    // Close idle pooled pages; pages of destroyed grids are closed instead of recycled
+    await this.pagePool.drain();
+
+    // Destroy all grids
+    const gridIds = Array.from(this.grids.keys());
+    for (const gridId of gridIds) {
+      try {
+        await this.destroyGrid(gridId);
+      } catch (error) {
+        console.error(`Error destroying grid ${gridId}:`, error);
+      }
+    }
+
+    // Close browser
+    if (this.browser) {
+      try {
+        await this.browser.close();
+        this.browser = null;
+      } catch (error) {
+        console.error('Error closing browser:', error);
+      }
+    }
+
+    this.isInitialized = false;
+    this.isCleaningUp = false;
+    console.error('GridManager: Cleanup completed');
+  }
+
+  /**
+   * Evict grids that have been idle for longer than the configured TTL
+   * @param now - Time to measure idleness against, in epoch milliseconds (defaults to the current time)
+   * @returns IDs of the evicted grids
+   */
+  async evictIdleGrids(now: number = Date.now()): Promise<string[]> {
+    const ttl = this.options.idleTtlMs;
+    if (!ttl || ttl <= 0) {
+      return [];
+    }
+
+    const idleGrids = Array.from(this.grids.values()).filter(grid => {
+      const lastActivity = Math.max(grid.lastAccessed.getTime(), grid.lastUpdated.getTime());
+      return !grid.isDestroyed && now - lastActivity > ttl;
+    });
+
+    const evicted: string[] = [];
+    for (const grid of idleGrids) {
+      try {
+        await this.evictGrid(grid.id);
+        evicted.push(grid.id);
+      } catch (error) {
+        console.error(`GridManager: Failed to evict idle grid ${grid.id}:`, error);
+      }
+    }
+
+    return evicted;
+  }
+
+  /**
+   * Get current resource usage and the configured limits
+   */
+  getResourceUsage(): ResourceUsage {
+    return {
+      grids: this.getActiveGrids().length,
+      maxGrids: this.options.maxGrids ?? null,
+      totalRows: this.getTotalRowCount(),
+      maxTotalRows: this.options.maxTotalRows ?? null,
+      idleTtlMs: this.options.idleTtlMs ?? null,
+      evictionPolicy: this.options.evictionPolicy ?? 'destroy',
+      evictedGrids: this.evictedGridCount,
+    };
+  }
+
+  /**
+   * Get page pool statistics
+   */
+  getPagePoolStats(): PagePoolStats {
+    return this.pagePool.getStats();
+  }
+
+  /**
+   * Get statistics of the grid pages' requests for AG Grid assets
+   */
+  getAssetStats(): AssetStats {
+    return { ...this.assetStats, missing: [...this.assetStats.missing] };
+  }
+
+  /**
+   * Resolve a grid name to its ID. Public methods that take a grid ID also
+   * accept the grid's name and resolve it first; unknown values are returned
+   * unchanged so that lookups fail with the usual GRID_NOT_FOUND error.
+   */
+  resolveGridId(gridIdOrName: string): string {
+    if (this.grids.has(gridIdOrName)) {
+      return gridIdOrName;
+    }
+
+    for (const grid of this.grids.values()) {
+      if (isSameGridName(grid.name, gridIdOrName)) {
+        return grid.id;
+      }
+    }
+
+    return gridIdOrName;
+  }
+
+  /**
+   * Get list of active grids
+   */
+  getActiveGrids(): string[] {
+    return Array.from(this.grids.keys()).filter(
+      (id) => !this.grids.get(id)?.isDestroyed
+    );
+  }
+
+  /**
+   * Get grid information
+   */
+  getGridInfo(gridId: string): Omit<GridInstance, 'page'> {
+    gridId = this.resolveGridId(gridId);
+    const grid = this.findGridInstance(gridId);
+    
+    return {
+      id: grid.id,
+      name: grid.name,
+      config: grid.config,
+      createdAt: grid.createdAt,
+      lastUpdated: grid.lastUpdated,
+      lastAccessed: grid.lastAccessed,
+      isDestroyed: grid.isDestroyed,
+      metadata: grid.metadata,
+    };
+  }
+
+  /**
+   * Record that a grid was used, resetting its idle time. Grid operations do
+   * this themselves; read-only lookups (getGridInfo, getGridState, read
+   * methods, views and diffs) do not, so that listing grids in the dashboard
+   * or reading resources does not keep them from being evicted.
+   */
+  touchGrid(gridId: string): void {
+    this.getGridInstance(this.resolveGridId(gridId));
+  }
+
+  // Private helper methods
+
+  /**
+   * Look up a live grid and record the access
+   */
+  private getGridInstance(gridId: string): GridInstance {
+    const grid = this.findGridInstance(gridId);
+    grid.lastAccessed = new Date();
+    return grid;
+  }
+
+  /**
+   * Look up a live grid without recording an access
+   */
+  private findGridInstance(gridId: string): GridInstance {
+    const grid = this.grids.get(gridId);
+    if (!grid) {
+      throw new GridManagerError(
+        `Grid with ID ${gridId} not found`,
+        'GRID_NOT_FOUND',
+        gridId
+      );
+    }
+
+    if (grid.isDestroyed) {
+      throw new GridManagerError(
+        `Grid with ID ${gridId} has been destroyed`,
+        'GRID_DESTROYED',
+        gridId
+      );
+    }
+
+    return grid;
+  }
+
+  /**
+   * Check that every row has a row ID and that IDs are unique
+   * @returns A description of the first problem found, or null
+   */
+  private findRowIdError(
+    rows: Record<string, any>[],
+    rowIdField: string,
+    existingIds: Set<string> = new Set()
+  ): string | null {
+    const seen = new Set<string>();
+
+    for (const row of rows) {
+      const value = row[rowIdField];
+      if (value === undefined || value === null || value === '') {
+        return `row is missing its ID field '${rowIdField}'`;
+      }
+
+      const id = String(value);
+      if (seen.has(id) || existingIds.has(id)) {
+        return `duplicate row ID '${id}' in field '${rowIdField}'`;
+      }
+      seen.add(id);
+    }
+
+    return null;
+  }
+
+  private getHistory(gridId: string): GridHistory {
+    let history = this.histories.get(gridId);
+    if (!history) {
+      history = new GridHistory(this.options.historyLimit ?? DEFAULT_HISTORY_LIMIT);
+      this.histories.set(gridId, history);
+    }
+    return history;
+  }
+
+  /**
+   * Fill in the computed columns of rows for a grid config
+   */
+  private computeRows(config: GridConfig, rows: Record<string, any>[]): Record<string, any>[] {
+    return applyComputedColumns(rows, config.computedColumns ?? [], config.columnDefs.map(column => column.field));
+  }
+
+  /**
+   * Record a change in the grid's history unless it comes from an undo or redo
+   */
+  private recordHistory(grid: GridInstance, action: string, description: string, changes: HistoryChange[]): void {
+    const limit = this.options.historyLimit ?? DEFAULT_HISTORY_LIMIT;
+    if (changes.length === 0 || limit <= 0 || this.replayingGrids.has(grid.id)) {
+      return;
+    }
+    this.getHistory(grid.id).record(action, description, changes);
+  }
+
+  /**
+   * Apply recorded values through the regular GridManager operations, which
+   * also broadcast the result to the web viewer
+   */
+  private async replayHistory(
+    grid: GridInstance,
+    steps: Array<{ type: HistoryChange['type']; value: any }>
+  ): Promise<void> {
+    this.replayingGrids.add(grid.id);
+
+    try {
+      for (const step of steps) {
+        switch (step.type) {
+          case 'rowData':
+            await this.updateGridData(grid.id, step.value);
+            break;
+          case 'filterModel':
+            await this.executeGridMethod(grid.id, 'setFilterModel', [step.value]);
+            break;
+          case 'columnState':
+            await this.executeGridMethod(grid.id, 'applyColumnState', [{ state: step.value, applyOrder: true }]);
+            break;
+          case 'columnDefs':
+            await this.setColumnDefs(grid.id, step.value);
+            break;
+          case 'computedColumns':
+            grid.config.computedColumns = step.value;
+            await this.persistGrid(grid);
+            break;
+        }
+      }
+    } finally {
+      this.replayingGrids.delete(grid.id);
+    }
+  }
+
+  /**
+   * Look up a saved view of a grid by name
+   * @throws GridManagerError with code VIEW_NOT_FOUND listing the available views
+   */
+  private findGridView(gridId: string, name: string): GridView {
+    const views = this.views.get(gridId) || [];
+    const view = views.find(candidate => candidate.name === name.trim());
+    if (!view) {
+      const available = views.length > 0 ? views.map(candidate => candidate.name).join(', ') : 'none';
+      throw new GridManagerError(
+        `Grid ${gridId} has no view named '${name}'. Available views: ${available}`,
+        'VIEW_NOT_FOUND',
+        gridId
+      );
+    }
+    return view;
+  }
+
+  /**
+   * Describe how the column and filter state changed as history changes
+   */
+  private diffViewStates(before?: GridViewState, after?: GridViewState): HistoryChange[] {
+    const changes: HistoryChange[] = [];
+    if (before && after) {
+      if (JSON.stringify(before.filterModel) !== JSON.stringify(after.filterModel)) {
+        changes.push({ type: 'filterModel', before: before.filterModel, after: after.filterModel });
+      }
+      if (JSON.stringify(before.columnState) !== JSON.stringify(after.columnState)) {
+        changes.push({ type: 'columnState', before: before.columnState, after: after.columnState });
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Send the sort and column layout of a grid to the web viewer
+   */
+  private emitGridSorted(grid: GridInstance, state: GridViewState): void {
+    // Widths are left out since they depend on the headless viewport
+    const sortModel = state.columnState.map(({ colId, sort, sortIndex, hide, pinned }) => ({
+      colId, sort, sortIndex, hide, pinned,
+    }));
+    this.webSocketManager?.onGridSorted(grid.id, sortModel);
+  }
+
+  /**
+   * Throw if a grid name is malformed or already used by another grid
+   */
+  private assertValidGridName(name: string, gridId?: string): void {
+    if (!GRID_NAME_PATTERN.test(name)) {
+      throw new GridManagerError(
+        `Invalid grid name '${name}': use up to 64 letters, digits, spaces, dots, dashes or underscores, starting with a letter or digit`,
+        'INVALID_GRID_NAME',
+        gridId
+      );
+    }
+
+    for (const grid of this.grids.values()) {
+      if (grid.id !== gridId && (isSameGridName(grid.name, name) || grid.id === name)) {
+        throw new GridManagerError(
+          `Grid name '${name}' is already used by grid ${grid.id}`,
+          'GRID_NAME_TAKEN',
+          gridId
+        );
+      }
+    }
+  }
+
+  private getTotalRowCount(): number {
+    let total = 0;
+    for (const grid of this.grids.values()) {
+      if (!grid.isDestroyed) {
+        total += grid.config.rowData.length;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Throw if adding grids or rows would exceed the configured limits
+   * @param additionalRows - Change in the total row count
+   * @param additionalGrids - Number of grids about to be created
+   */
+  private assertWithinLimits(additionalRows: number, additionalGrids: number, gridId?: string): void {
+    const { maxGrids, maxTotalRows } = this.options;
+
+    if (maxGrids !== undefined && additionalGrids > 0) {
+      const activeGrids = this.getActiveGrids().length + this.pendingGrids;
+      if (activeGrids + additionalGrids > maxGrids) {
+        throw new GridManagerError(
+          `Grid limit exceeded: ${activeGrids} of ${maxGrids} grids are in use. Destroy or save and restore grids you no longer need.`,
+          'GRID_LIMIT_EXCEEDED',
+          gridId
+        );
+      }
+    }
+
+    if (maxTotalRows !== undefined && additionalRows > 0) {
+      const totalRows = this.getTotalRowCount() + this.pendingRows;
+      if (totalRows + additionalRows > maxTotalRows) {
+        throw new GridManagerError(
+          `Row limit exceeded: ${totalRows} rows are loaded and ${additionalRows} more would exceed the limit of ${maxTotalRows}`,
+          'ROW_LIMIT_EXCEEDED',
+          gridId
+        );
+      }
+    }
+  }
+
+  private async evictGrid(gridId: string): Promise<void> {
+    const policy = this.options.evictionPolicy ?? 'destroy';
+
+    if (policy === 'archive') {
+      await this.saveGrid(gridId);
+    }
+
+    await this.destroyGrid(gridId, { keepSnapshot: policy === 'archive' });
+    this.evictedGridCount++;
+    console.error(`GridManager: Evicted idle grid ${gridId} (${policy})`);
+  }
+
+  private startEvictionTimer(): void {
+    const ttl = this.options.idleTtlMs;
+    if (!ttl || ttl <= 0 || this.evictionTimer) {
+      return;
+    }
+
+    // Check at least once a minute, more often for short TTLs
+    const interval = Math.min(ttl, 60000);
+    this.evictionTimer = setInterval(() => {
+      this.evictIdleGrids().catch((error) => {
+        console.error('GridManager: Idle grid eviction failed:', error);
+      });
+    }, interval);
+    this.evictionTimer.unref();
+  }
+
+  private stopEvictionTimer(): void {
+    if (this.evictionTimer) {
+      clearInterval(this.evictionTimer);
+      this.evictionTimer = null;
+    }
+  }
+
+  /**
+   * Read the exported columns and rows from a grid page. By default these are
+   * the displayed columns and the filtered, sorted rows.
+   */
+  private async collectExportDataset(grid: GridInstance, options: ExportOptions = {}): Promise<ExportDataset> {
+    return grid.page.evaluate((exportOptions) => {
+      if (!window.gridApi) {
+        throw new Error('Grid API not available');
+      }
+
+      const api = window.gridApi;
+      const widths: Record<string, number> = {};
+      api.getColumnState().forEach((state: any) => {
+        widths[state.colId] = state.width;
+      });
+
+      const exportedColumns = exportOptions.columnKeys
+        ? exportOptions.columnKeys.map((key: string) => api.getColumn(key)).filter(Boolean)
+        : api.getAllDisplayedColumns();
+
+      const columns = exportedColumns.map((column: any) => {
+        const colDef = column.getColDef();
+        const colId = column.getColId();
+        const field = colDef.field || colId;
+        return {
+          field,
+          headerName: exportOptions.headerMode === 'field'
+            ? field
+            : colDef.headerName || api.getDisplayNameForColumn(column, 'csv') || colId,
+          width: widths[colId],
+          type: typeof colDef.type === 'string' ? colDef.type : undefined,
+          cellDataType: typeof colDef.cellDataType === 'string' ? colDef.cellDataType : undefined,
+        };
+      });
+
+      const rows: Record<string, any>[] = [];
+      const collectRow = (node: any) => {
+        if (!node.data) {
+          return;
+        }
+        if (exportOptions.onlySelected && !node.isSelected()) {
+          return;
+        }
+        if (exportOptions.limit && rows.length >= exportOptions.limit) {
+          return;
+        }
+        rows.push(node.data);
+      };
+
+      if (exportOptions.allRows) {
+        api.forEachNode(collectRow);
+      } else {
+        api.forEachNodeAfterFilterAndSort(collectRow);
+      }
+
+      return { columns, rows };
+    }, options);
+  }
+
+  /**
+   * Print a paginated report of the export dataset using the grid's own page
+   */
+  private async renderPdfReport(
+    grid: GridInstance,
+    dataset: ExportDataset,
+    options: ExportOptions
+  ): Promise<Buffer> {
+    const { filterModel, sortState } = await grid.page.evaluate(() => {
+      if (!window.gridApi) {
+        throw new Error('Grid API not available');
+      }
+
+      const sortState = window.gridApi.getColumnState()
+        .filter((col: any) => col.sort)
+        .map((col: any) => ({ colId: col.colId, sort: col.sort, sortIndex: col.sortIndex }))
+        .sort((a: any, b: any) => (a.sortIndex || 0) - (b.sortIndex || 0));
+
+      return { filterModel: window.gridApi.getFilterModel(), sortState };
+    });
+
+    const reportOptions = {
+      title: options.title || `Grid ${grid.id}`,
+      subtitle: options.subtitle,
+      filterModel,
+      sortState,
+    };
+
+    await grid.page.evaluate((reportHtml) => {
+      document.body.insertAdjacentHTML('beforeend', reportHtml);
+    }, buildPdfReportHtml(dataset, reportOptions));
+
+    try {
+      const pdf = await grid.page.pdf({
+        format: 'A4',
+        landscape: dataset.columns.length > 6,
+        printBackground: true,
+        displayHeaderFooter: true,
+        headerTemplate: '<span></span>',
+        footerTemplate: buildPdfFooterTemplate(reportOptions),
+        margin: { top: '12mm', bottom: '16mm', left: '10mm', right: '10mm' },
+      });
+      return Buffer.from(pdf);
+    } finally {
+      await grid.page.evaluate((elementId) => {
+        document.getElementById(elementId)?.remove();
+      }, PDF_REPORT_ELEMENT_ID);
+    }
+  }
+
+  private generateGridId(): string {
+    return `grid_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private buildSnapshot(grid: GridInstance): GridSnapshot {
+    return {
+      id: grid.id,
+      name: grid.name,
+      config: grid.config,
+      state: grid.lastKnownState,
+      metadata: grid.metadata,
+      versions: this.versions.get(grid.id),
+      views: this.views.get(grid.id),
+      createdAt: grid.createdAt.toISOString(),
+      lastUpdated: grid.lastUpdated.toISOString(),
+      savedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Save a grid after a mutation when automatic persistence is enabled
+   */
+  private async persistGrid(grid: GridInstance): Promise<void> {
+    if (!this.options.persistGrids) {
+      return;
+    }
+
+    try {
+      await this.persistence.save(this.buildSnapshot(grid));
+    } catch (error) {
+      console.error(`GridManager: Failed to persist grid ${grid.id}:`, error);
+    }
+  }
+
+  private async restoreFromSnapshot(snapshot: GridSnapshot): Promise<string> {
+    const gridId = await this.createGrid(snapshot.config, {
+      id: snapshot.id,
+      name: snapshot.name,
+      metadata: snapshot.metadata,
+    });
+
+    const grid = this.getGridInstance(gridId);
+    grid.createdAt = new Date(snapshot.createdAt);
+    if (snapshot.versions?.length || snapshot.views?.length) {
+      // createGrid persisted the grid without its versions and views; write them back
+      this.versions.set(gridId, snapshot.versions || []);
+      this.views.set(gridId, snapshot.views || []);
+      await this.persistGrid(grid);
+    }
+
+    if (snapshot.state) {
+      try {
+        await this.applyViewState(grid.page, snapshot.state);
+        grid.lastKnownState = snapshot.state;
+        await this.persistGrid(grid);
+      } catch (error) {
+        console.error(`GridManager: Failed to restore column and filter state of grid ${gridId}:`, error);
+      }
+
+      if (this.webSocketManager && Object.keys(snapshot.state.filterModel || {}).length > 0) {
+        this.webSocketManager.onGridFiltered(gridId, snapshot.state.filterModel, await this.getDisplayedRowCount(grid));
+      }
+    }
+
+    console.error(`GridManager: Restored grid ${gridId} from snapshot`);
+    return gridId;
+  }
+
+  /**
+   * Read the rows that pass the current filter, in display order
+   */
+  private async getDisplayedRows(grid: GridInstance): Promise<Record<string, any>[]> {
+    return grid.page.evaluate(() => {
+      if (!window.gridApi) {
+        throw new Error('Grid API not available');
+      }
+
+      const rows: Record<string, any>[] = [];
+      window.gridApi.forEachNodeAfterFilterAndSort((node: any) => {
+        if (node.data) {
+          rows.push(node.data);
+        }
+      });
+      return rows;
+    });
+  }
+
+  private async getDisplayedRowCount(grid: GridInstance): Promise<number> {
+    return grid.page.evaluate(() => {
+      return window.gridApi ? window.gridApi.getDisplayedRowCount() : 0;
+    });
+  }
+
+  /**
+   * Launch the headless browser and watch it for crashes
+   */
+  private async launchBrowser(): Promise<void> {
+    const browser = await puppeteer.launch({
+      headless: this.options.headless ?? true,
+      devtools: this.options.devtools ?? false,
+      args: [
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+        '--disable-dev-shm-usage',
+        '--disable-accelerated-2d-canvas',
+        '--no-first-run',
+        '--no-zygote',
+        '--disable-gpu',
+      ],
+    });
+
+    browser.on('disconnected', () => {
+      if (this.isCleaningUp || browser !== this.browser) {
+        return;
+      }
+
+      console.error('GridManager: Browser disconnected unexpectedly, starting recovery');
+      this.recoverBrowser().catch((error) => {
+        console.error('GridManager: Browser recovery failed:', error);
+      });
+    });
+
+    this.browser = browser;
+  }
+
+  /**
+   * Relaunch the browser and rebuild every grid from its stored configuration
+   */
+  private async recoverBrowser(): Promise<void> {
+    if (this.recoveryPromise) {
+      return this.recoveryPromise;
+    }
+
+    this.recoveryPromise = (async () => {
+      this.browser = null;
+      this.pagePool.reset();
+
+      try {
+        await this.launchBrowser();
+      } catch (error) {
+        this.isInitialized = false;
+        throw new GridManagerError(
+          'Failed to relaunch browser after crash',
+          'BROWSER_RECOVERY_FAILED',
+          undefined,
+          error as Error
+        );
+      }
+
+      this.pagePool.fill().catch((error) => {
+        console.error('GridManager: Failed to warm page pool:', error);
+      });
+
+      for (const grid of this.grids.values()) {
+        if (grid.isDestroyed) {
+          continue;
+        }
+
+        try {
+          await this.rebuildGrid(grid);
+          this.webSocketManager?.onGridRecovered(grid.id, 'browser_disconnected');
+        } catch (error) {
+          console.error(`GridManager: Failed to rebuild grid ${grid.id} after browser crash:`, error);
+        }
+      }
+
+      console.error('GridManager: Browser recovery completed');
+    })();
+
+    try {
+      await this.recoveryPromise;
+    } finally {
+      this.recoveryPromise = null;
+    }
+  }
+
+  /**
+   * Rebuild a single grid whose page crashed while the browser stayed alive
+   */
+  private async recoverCrashedPage(page: Page, error: Error): Promise<void> {
+    const grid = Array.from(this.grids.values()).find(
+      (candidate) => candidate.page === page && !candidate.isDestroyed
+    );
+
+    if (!grid || this.isCleaningUp || this.recoveryPromise || !this.browser?.connected) {
+      return;
+    }
+
+    console.error(`GridManager: Page of grid ${grid.id} crashed (${error.message}), rebuilding`);
+    this.pagePool.forget(page);
+    page.close().catch(() => undefined);
+
+    await this.rebuildGrid(grid);
+    this.webSocketManager?.onGridRecovered(grid.id, 'page_crashed');
+  }
+
+  /**
+   * Recreate a grid on a fresh page from its config and last known state
+   */
+  private async rebuildGrid(grid: GridInstance): Promise<void> {
+    const page = await this.pagePool.acquire();
+
+    try {
+      const result = await page.evaluate((config) => {
+        return window.createAGGrid(config);
+      }, grid.config);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Unknown error creating grid');
+      }
+
+      if (grid.lastKnownState) {
+        await this.applyViewState(page, grid.lastKnownState);
+      }
+    } catch (error) {
+      await this.pagePool.release(page).catch(() => undefined);
+      throw error;
+    }
+
+    grid.page = page;
+    grid.lastUpdated = new Date();
+    console.error(`GridManager: Rebuilt grid ${grid.id}`);
+  }
+
+  /**
+   * Restore column and filter state on a freshly created grid
+   */
+  private async applyViewState(page: Page, state: GridViewState): Promise<void> {
+    await page.evaluate(async (viewState) => {
+      if (!window.gridApi) {
+        await new Promise<void>(resolve => {
+          window.addEventListener('agGridReady', () => resolve(), { once: true });
+        });
+      }
+
+      if (viewState.columnState && viewState.columnState.length > 0) {
+        window.gridApi.applyColumnState({ state: viewState.columnState, applyOrder: true });
+      }
+      window.gridApi.setFilterModel(viewState.filterModel || null);
+    }, state);
+  }
+
+  /**
+   * Record the current column and filter state of a grid
+   */
+  private async captureGridState(grid: GridInstance): Promise<void> {
+    try {
+      grid.lastKnownState = await grid.page.evaluate(() => {
+        if (!window.gridApi) {
+          throw new Error('Grid API not available');
+        }
+
+        return {
+          columnState: window.gridApi.getColumnState(),
+          filterModel: window.gridApi.getFilterModel() || {},
+        };
+      });
+    } catch (error) {
+      console.error(`GridManager: Failed to capture state of grid ${grid.id}:`, error);
+    }
+  }
+
+  /**
+   * Open a page with the grid HTML loaded and the AG Grid system ready
+   */
+  private async prepareGridPage(): Promise<Page> {
+    if (!this.browser) {
+      throw new Error('Browser not available');
+    }
+
+    // Create new page
+    const page = await this.browser.newPage();
+
+    // Rebuild the page's grid if its renderer crashes
+    page.on('error', (error: Error) => {
+      this.recoverCrashedPage(page, error).catch((recoveryError) => {
+        console.error('GridManager: Failed to recover crashed page:', recoveryError);
+      });
+    });
+
+    try {
+      // Set viewport
+      await page.setViewport(this.options.viewport!);
+
+      // Serve AG Grid from node_modules so grids can be created without network access
+      await this.interceptAgGridAssets(page);
+
+      // Load the grid HTML file
+      const htmlContent = await this.loadGridHtml();
+      await page.setContent(htmlContent, { waitUntil: 'networkidle0' });
+
+      // Wait for AG Grid system to be ready
+      await page.waitForFunction(() => window.createAGGrid !== undefined, {
+        timeout: 10000,
+      });
+
+      return page;
+    } catch (error) {
+      await page.close().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Destroy the grid in a page so that the page can be reused for another grid
+   */
+  private async resetGridPage(page: Page): Promise<void> {
+    await page.setViewport(this.options.viewport!);
+    await page.evaluate(() => {
+      if (window.gridApi) {
+        window.gridApi.destroy();
+        window.gridApi = null;
+      }
+      document.querySelectorAll('.error-message').forEach(element => element.remove());
+    });
+  }
+
+  /**
+   * Answer the grid page's CDN requests for AG Grid assets from the local
+   * ag-grid-community package and block all other network access
+   */
+  private async interceptAgGridAssets(page: Page): Promise<void> {
+    await page.setRequestInterception(true);
+
+    page.on('request', (request: HTTPRequest) => {
+      this.handleAssetRequest(request).catch((error) => {
+        console.error(`GridManager: Failed to handle request ${request.url()}:`, error);
+      });
+    });
+  }
+
+  private async handleAssetRequest(request: HTTPRequest): Promise<void> {
+    if (request.isInterceptResolutionHandled()) {
+      return;
+    }
+
+    const url = request.url();
+    const match = url.match(AG_GRID_CDN_PATTERN);
+
+    if (match) {
+      const assetPath = match[1].split('?')[0];
+      try {
+        const body = await this.loadAgGridAsset(assetPath);
+        await request.respond({
+          status: 200,
+          contentType: ASSET_CONTENT_TYPES[extname(assetPath)] || 'application/octet-stream',
+          body,
+        });
+        this.assetStats.served++;
+      } catch (error) {
+        console.error(`GridManager: AG Grid asset not found locally: ${assetPath}`);
+        this.assetStats.missing.push(assetPath);
+        await request.respond({ status: 404, body: '' });
+      }
+      return;
+    }
+
+    if (url.startsWith('http://') || url.startsWith('https://')) {
+      // The headless grid page has no other external dependencies
+      this.assetStats.blocked++;
+      await request.abort('blockedbyclient');
+      return;
+    }
+
+    await request.continue();
+  }
+
+  private async loadAgGridAsset(assetPath: string): Promise<Buffer> {
+    const cached = this.assetCache.get(assetPath);
+    if (cached) {
+      return cached;
+    }
+
+    const filePath = normalize(join(this.agGridPackagePath, assetPath));
+    if (!filePath.startsWith(this.agGridPackagePath + sep)) {
+      throw new Error(`Invalid asset path: ${assetPath}`);
+    }
+
+    const content = await readFile(filePath);
+    this.assetCache.set(assetPath, content);
+    return content;
+  }
+
+  private async loadGridHtml(): Promise<string> {
+    try {
+      const html = await readFile(this.gridHtmlPath, 'utf-8');
+      const scripts = new Map<string, string>();
+      for (const [, name] of html.matchAll(SHARED_SCRIPT_TAG_PATTERN)) {
+        scripts.set(name, await readFile(join(this.sharedScriptsPath, name), 'utf-8'));
+      }
+      return html.replace(SHARED_SCRIPT_TAG_PATTERN, (_tag, name: string) => `<script>\n${scripts.get(name)}\n</script>`);
     } catch (error) {
       throw new GridManagerError(
         `Failed to load grid HTML file: ${this.gridHtmlPath}`,
@@ -580,6 +3226,8 @@ export class GridManager {
 declare global {
   interface Window {
     createAGGrid: (config: any) => { success: boolean; error?: string };
+    buildColumnDefs: (columnDefs: any[]) => any[];
+    setFormattingRules: (rules: any[], columnDefs: any[]) => number[];
     updateGridData: (data: any[]) => void;
     getGridData: () => any[];
     getSelectedRows: () => any[];
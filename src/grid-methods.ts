@@ -0,0 +1,235 @@
+/**
+ * Registry of AG Grid API methods that may be called through executeGridMethod
+ *
+ * Each entry describes the method's parameters, whether it only reads from the
+ * grid or mutates it, and which bookkeeping the GridManager has to do
+ * afterwards so that the stored `GridInstance` and the web viewer stay in sync.
+ * Methods that are not listed (e.g. `destroy`, or `setGridOption('rowData')`,
+ * which would bypass `config.rowData`) are rejected.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Follow-up work after a mutating method:
+ * - `viewState`: re-capture column and filter state for history, recovery and persistence
+ * - `gridOption`: store the option in the grid config (column definitions are synced separately)
+ */
+export type GridMethodSync = 'none' | 'viewState' | 'gridOption';
+
+/**
+ * WebSocket event to emit after the method ran
+ */
+export type GridMethodEvent = 'filtered' | 'sorted';
+
+export interface GridMethodSpec {
+  description: string;
+  kind: 'read' | 'mutate';
+  /** Schemas of the positional parameters; trailing optional parameters may be omitted */
+  params: z.ZodTypeAny[];
+  sync: GridMethodSync;
+  event?: GridMethodEvent;
+}
+
+const ColumnKeysSchema = z.array(z.string()).min(1);
+
+const ColumnStateParamsSchema = z.object({
+  state: z.array(z.object({ colId: z.string() }).passthrough()).optional(),
+  applyOrder: z.boolean().optional(),
+  defaultState: z.record(z.any()).optional(),
+}).passthrough();
+
+/**
+ * Grid options that may be changed with setGridOption. Row data is left out
+ * on purpose: use update_grid_data or apply_grid_transaction instead. The
+ * quick filter is left out too, since it is not part of the captured view
+ * state: use apply_grid_filter or setFilterModel instead.
+ */
+export const SETTABLE_GRID_OPTIONS = [
+  'columnDefs',
+  'defaultColDef',
+  'pagination',
+  'paginationPageSize',
+  'rowHeight',
+  'headerHeight',
+  'animateRows',
+  'enableCellTextSelection',
+  'suppressMovableColumns',
+] as const;
+
+const readMethod = (description: string, params: z.ZodTypeAny[] = []): GridMethodSpec => ({
+  description,
+  kind: 'read',
+  params,
+  sync: 'none',
+});
+
+const mutateMethod = (
+  description: string,
+  params: z.ZodTypeAny[] = [],
+  sync: GridMethodSync = 'none',
+  event?: GridMethodEvent
+): GridMethodSpec => ({
+  description,
+  kind: 'mutate',
+  params,
+  sync,
+  event,
+});
+
+export const GRID_METHODS: Record<string, GridMethodSpec> = {
+  // State
+  getColumnState: readMethod('Get the state (width, sort, visibility, order) of all columns'),
+  getColumnDefs: readMethod('Get the current column definitions'),
+  getFilterModel: readMethod('Get the current filter model'),
+  isAnyFilterPresent: readMethod('Check whether any filter is active'),
+  getQuickFilter: readMethod('Get the quick filter text'),
+  getGridOption: readMethod('Get the value of a grid option', [z.string()]),
+  getState: readMethod('Get the full grid state'),
+
+  // Rows
+  getDisplayedRowCount: readMethod('Count the rows left after filtering'),
+  getSelectedRows: readMethod('Get the data of the selected rows'),
+  getFirstDisplayedRowIndex: readMethod('Get the index of the first row in the viewport'),
+  getLastDisplayedRowIndex: readMethod('Get the index of the last row in the viewport'),
+
+  // Pagination
+  paginationGetCurrentPage: readMethod('Get the current page index'),
+  paginationGetTotalPages: readMethod('Get the number of pages'),
+  paginationGetPageSize: readMethod('Get the page size'),
+  paginationGoToPage: mutateMethod('Go to a page by index', [z.number().int().min(0)]),
+  paginationGoToFirstPage: mutateMethod('Go to the first page'),
+  paginationGoToLastPage: mutateMethod('Go to the last page'),
+  paginationGoToNextPage: mutateMethod('Go to the next page'),
+  paginationGoToPreviousPage: mutateMethod('Go to the previous page'),
+
+  // Filtering and sorting
+  setFilterModel: mutateMethod(
+    'Replace the filter model (null clears all filters)',
+    [z.record(z.any()).nullable()],
+    'viewState',
+    'filtered'
+  ),
+  applyColumnState: mutateMethod(
+    'Apply column state such as sort, width, visibility and order',
+    [ColumnStateParamsSchema],
+    'viewState',
+    'sorted'
+  ),
+  resetColumnState: mutateMethod('Reset all columns to their column definitions', [], 'viewState', 'sorted'),
+
+  // Columns
+  setColumnsVisible: mutateMethod('Show or hide columns', [ColumnKeysSchema, z.boolean()], 'viewState'),
+  setColumnsPinned: mutateMethod(
+    'Pin columns left or right, or unpin them with null',
+    [ColumnKeysSchema, z.enum(['left', 'right']).nullable()],
+    'viewState'
+  ),
+  moveColumns: mutateMethod('Move columns to an index', [ColumnKeysSchema, z.number().int().min(0)], 'viewState'),
+  setColumnWidths: mutateMethod(
+    'Set column widths',
+    [z.array(z.object({ key: z.string(), newWidth: z.number().positive() })).min(1)],
+    'viewState'
+  ),
+  autoSizeColumns: mutateMethod('Auto-size columns to their content', [ColumnKeysSchema, z.boolean().optional()], 'viewState'),
+  autoSizeAllColumns: mutateMethod('Auto-size all columns to their content', [z.boolean().optional()], 'viewState'),
+  sizeColumnsToFit: mutateMethod('Fit all columns into the grid width', [z.record(z.any()).optional()], 'viewState'),
+  ensureColumnVisible: mutateMethod('Scroll a column into view', [z.string()]),
+
+  // Selection and display
+  selectAll: mutateMethod('Select all rows'),
+  deselectAll: mutateMethod('Deselect all rows'),
+  selectAllFiltered: mutateMethod('Select all rows that pass the filter'),
+  deselectAllFiltered: mutateMethod('Deselect all rows that pass the filter'),
+  ensureIndexVisible: mutateMethod(
+    'Scroll a row into view',
+    [z.number().int().min(0), z.enum(['top', 'bottom', 'middle']).nullable().optional()]
+  ),
+  refreshCells: mutateMethod('Refresh cell rendering', [z.record(z.any()).optional()]),
+  redrawRows: mutateMethod('Redraw rows', [z.record(z.any()).optional()]),
+
+  // Options
+  setGridOption: mutateMethod(
+    `Change a grid option (${SETTABLE_GRID_OPTIONS.join(', ')})`,
+    [z.enum(SETTABLE_GRID_OPTIONS), z.any()],
+    'gridOption'
+  ),
+};
+
+/**
+ * Look up a method in the registry
+ */
+export function getGridMethodSpec(method: string): GridMethodSpec | undefined {
+  return Object.prototype.hasOwnProperty.call(GRID_METHODS, method) ? GRID_METHODS[method] : undefined;
+}
+
+/**
+ * Validate the parameters of an allowed method
+ * @returns A description of the problem, or null if the parameters are valid
+ */
+export function findGridMethodParamsError(spec: GridMethodSpec, params: any[] = []): string | null {
+  if (params.length > spec.params.length) {
+    return `expected at most ${spec.params.length} parameter(s), got ${params.length}`;
+  }
+
+  for (let index = 0; index < spec.params.length; index++) {
+    const result = spec.params[index].safeParse(params[index]);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      const path = issue.path.length > 0 ? ` at ${issue.path.join('.')}` : '';
+      return `parameter ${index + 1}${path}: ${issue.message}`;
+    }
+  }
+
+  return null;
+}
+
+// Replacements for removed or renamed AG Grid API methods
+const METHOD_REPLACEMENTS: Record<string, string[]> = {
+  clearSelection: ['deselectAll'],
+  setSortModel: ['applyColumnState'],
+  getSortModel: ['getColumnState'],
+  setQuickFilter: ['setFilterModel'],
+  setColumnDefs: ['setGridOption'],
+  setColumnVisible: ['setColumnsVisible'],
+  setColumnPinned: ['setColumnsPinned'],
+  moveColumn: ['moveColumns'],
+  setColumnWidth: ['setColumnWidths'],
+};
+
+/**
+ * Suggest allowed methods with a name similar to an unknown one
+ */
+export function suggestGridMethods(method: string, limit = 5): string[] {
+  if (Object.prototype.hasOwnProperty.call(METHOD_REPLACEMENTS, method)) {
+    return METHOD_REPLACEMENTS[method];
+  }
+
+  const target = method.toLowerCase();
+
+  return Object.keys(GRID_METHODS)
+    .map(name => ({ name, distance: editDistance(target, name.toLowerCase()) }))
+    .filter(({ name, distance }) => {
+      const lowerName = name.toLowerCase();
+      return distance <= Math.max(2, Math.floor(target.length / 3)) ||
+        lowerName.includes(target) || target.includes(lowerName);
+    })
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ name }) => name);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,132 @@
+/**
+ * File-based persistence for grid snapshots
+ *
+ * Each grid is stored as `<dataDir>/<gridId>.json` containing its
+ * configuration, column and filter state, metadata, tagged versions and saved views, so that grids can be
+ * recreated with the same IDs when the server restarts.
+ */
+
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'fs/promises';
+import { basename, join, resolve } from 'path';
+import { homedir } from 'os';
+import type { GridConfig, GridViewState } from './grid-manager.js';
+import type { GridVersion } from './grid-versions.js';
+import type { GridView } from './grid-views.js';
+
+export interface GridSnapshot {
+  id: string;
+  name?: string;
+  config: GridConfig;
+  state?: GridViewState;
+  metadata: Record<string, any>;
+  versions?: GridVersion[];
+  views?: GridView[];
+  createdAt: string;
+  lastUpdated: string;
+  savedAt: string;
+}
+
+/**
+ * Default data directory when none is configured
+ */
+export const DEFAULT_DATA_DIR = join(homedir(), '.ag-grid-mcp', 'grids');
+
+const SNAPSHOT_EXTENSION = '.json';
+
+export class GridPersistence {
+  private directory: string;
+
+  constructor(directory: string = DEFAULT_DATA_DIR) {
+    this.directory = resolve(directory);
+  }
+
+  /**
+   * Get the directory snapshots are stored in
+   */
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Write a grid snapshot, replacing any previous snapshot of the same grid
+   */
+  async save(snapshot: GridSnapshot): Promise<string> {
+    await mkdir(this.directory, { recursive: true });
+
+    const path = this.getSnapshotPath(snapshot.id);
+    const temporaryPath = `${path}.tmp`;
+
+    // Write to a temporary file first so a crash never leaves a truncated snapshot
+    await writeFile(temporaryPath, JSON.stringify(snapshot, null, 2), 'utf-8');
+    await rename(temporaryPath, path);
+
+    return path;
+  }
+
+  /**
+   * Load a grid snapshot, or null if none exists
+   */
+  async load(gridId: string): Promise<GridSnapshot | null> {
+    try {
+      const content = await readFile(this.getSnapshotPath(gridId), 'utf-8');
+      return JSON.parse(content) as GridSnapshot;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Load all stored snapshots; unreadable files are skipped
+   */
+  async loadAll(): Promise<GridSnapshot[]> {
+    const gridIds = await this.list();
+    const snapshots: GridSnapshot[] = [];
+
+    for (const gridId of gridIds) {
+      try {
+        const snapshot = await this.load(gridId);
+        if (snapshot) {
+          snapshots.push(snapshot);
+        }
+      } catch (error) {
+        console.error(`GridPersistence: Skipping unreadable snapshot for grid ${gridId}:`, error);
+      }
+    }
+
+    return snapshots;
+  }
+
+  /**
+   * List the IDs of all stored snapshots
+   */
+  async list(): Promise<string[]> {
+    try {
+      const files = await readdir(this.directory);
+      return files
+        .filter(file => file.endsWith(SNAPSHOT_EXTENSION))
+        .map(file => file.slice(0, -SNAPSHOT_EXTENSION.length));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a grid snapshot if it exists
+   */
+  async remove(gridId: string): Promise<void> {
+    await rm(this.getSnapshotPath(gridId), { force: true });
+  }
+
+  private getSnapshotPath(gridId: string): string {
+    const safeId = basename(gridId).replace(/[^a-zA-Z0-9._-]/g, '_');
+    return join(this.directory, `${safeId}${SNAPSHOT_EXTENSION}`);
+  }
+}
+
+export default GridPersistence;
@@ -0,0 +1,136 @@
+/**
+ * Pivot tables over grid rows
+ *
+ * AG Grid Community cannot pivot, so pivot tables are computed here and
+ * loaded into a grid of their own: one row per combination of row key
+ * values, one column per value of the pivot column (grouped under a common
+ * header) holding the aggregated value field, a row total column and a grand
+ * total row.
+ */
+
+import { GridManagerError, type ColumnDef } from './grid-manager.js';
+import {
+  aggregate,
+  getAggregationHeader,
+  groupRows,
+  type AggregateFunction,
+} from './grid-aggregation.js';
+
+/**
+ * Most distinct pivot column values a pivot table can have
+ */
+export const MAX_PIVOT_COLUMNS = 200;
+
+export interface PivotSpec {
+  /** Fields whose value combinations form the rows */
+  rowKeys: string[];
+  /** Field whose distinct values become columns */
+  pivotField: string;
+  /** Field to aggregate; may be omitted for `count` to count rows */
+  valueField?: string;
+  fn: AggregateFunction;
+}
+
+export interface PivotTable {
+  columnDefs: ColumnDef[];
+  rows: Record<string, any>[];
+  /** Grand total row, aggregating each column over all rows */
+  totals: Record<string, any>;
+  /** Distinct values of the pivot column, in column order */
+  pivotValues: any[];
+}
+
+const TOTAL_LABEL = 'Total';
+
+const BLANK_LABEL = '(blank)';
+
+/**
+ * Make a field name from a pivot value that is unique among the used names.
+ * Dots are replaced because AG Grid reads them as nested field paths.
+ */
+function toPivotField(pivotField: string, value: any, used: Set<string>): string {
+  const suffix = value === null ? 'blank' : String(value).replace(/[^A-Za-z0-9_-]+/g, '_');
+  let field = `${pivotField}_${suffix}`;
+  for (let index = 2; used.has(field); index++) {
+    field = `${pivotField}_${suffix}_${index}`;
+  }
+  used.add(field);
+  return field;
+}
+
+/**
+ * Build a pivot table from rows
+ * @param columnDefs Column definitions of the source grid, used for headers
+ * @throws GridManagerError with code INVALID_PIVOT when the pivot column has more than MAX_PIVOT_COLUMNS values
+ */
+export function buildPivotTable(
+  rows: Record<string, any>[],
+  spec: PivotSpec,
+  columnDefs: ColumnDef[]
+): PivotTable {
+  const { rowKeys, pivotField, valueField, fn } = spec;
+  const headers = new Map(columnDefs.map(column => [column.field, column.headerName ?? column.field]));
+  const aggregation = { fn, field: valueField };
+
+  const pivotGroups = groupRows(rows, [pivotField]);
+  if (pivotGroups.length > MAX_PIVOT_COLUMNS) {
+    throw new GridManagerError(
+      `Invalid pivot: column '${pivotField}' has ${pivotGroups.length} distinct values, at most ${MAX_PIVOT_COLUMNS} are supported`,
+      'INVALID_PIVOT'
+    );
+  }
+
+  const used = new Set(rowKeys);
+  const pivotColumns = pivotGroups.map(group => ({
+    value: group.values[0],
+    field: toPivotField(pivotField, group.values[0], used),
+    rows: group.rows,
+  }));
+  let totalField = 'total';
+  for (let index = 2; used.has(totalField); index++) {
+    totalField = `total_${index}`;
+  }
+
+  const headerGroup = `${getAggregationHeader(aggregation, valueField && headers.get(valueField))} by ${headers.get(pivotField)}`;
+  const resultColumnDefs: ColumnDef[] = [
+    ...rowKeys.map(field => ({ field, headerName: headers.get(field) })),
+    ...pivotColumns.map(column => ({
+      field: column.field,
+      headerName: column.value === null ? BLANK_LABEL : String(column.value),
+      headerGroup,
+    })),
+    { field: totalField, headerName: TOTAL_LABEL },
+  ];
+
+  const resultRows = groupRows(rows, rowKeys).map(group => {
+    const row: Record<string, any> = {};
+    rowKeys.forEach((field, index) => {
+      row[field] = group.values[index];
+    });
+
+    const cells = new Map(groupRows(group.rows, [pivotField]).map(cell => [JSON.stringify(cell.values[0]), cell.rows]));
+    for (const column of pivotColumns) {
+      const cellRows = cells.get(JSON.stringify(column.value));
+      // Combinations without rows stay empty rather than aggregating nothing
+      row[column.field] = cellRows ? aggregate(aggregation, cellRows) : null;
+    }
+    row[totalField] = aggregate(aggregation, group.rows);
+    return row;
+  });
+
+  const totals: Record<string, any> = {};
+  rowKeys.forEach((field, index) => {
+    totals[field] = index === 0 ? TOTAL_LABEL : null;
+  });
+  for (const column of pivotColumns) {
+    totals[column.field] = aggregate(aggregation, column.rows);
+  }
+  totals[totalField] = aggregate(aggregation, rows);
+
+  return {
+    columnDefs: resultColumnDefs,
+    rows: resultRows,
+    totals,
+    pivotValues: pivotColumns.map(column => column.value),
+  };
+}
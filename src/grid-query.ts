@@ -0,0 +1,631 @@
+/**
+ * Restricted SQL dialect for querying a grid
+ *
+ *   SELECT * | column[, column...] [FROM name]
+ *   [WHERE condition] [ORDER BY column [ASC | DESC][, ...]] [LIMIT n]
+ *
+ * Conditions combine comparisons (=, !=, <>, <, <=, >, >=), IN, BETWEEN,
+ * LIKE and IS NULL with AND, OR, NOT and parentheses. Text comparisons are
+ * case-insensitive like AG Grid's text filter, and IS NULL matches empty
+ * cells (null, missing or an empty string). ORDER BY sorts like the grid's
+ * default comparator, so text sorts case-sensitively.
+ *
+ * Queries are evaluated against the grid's row data. When the condition can
+ * be expressed as an AG Grid filter model (per column, at most two
+ * conditions), it is translated so the grid itself can show the result.
+ */
+
+import type { ColumnDef } from './grid-manager.js';
+import { getFilterColumnType } from './grid-filters.js';
+import { tokenize, type LexerSyntax, type Token } from './grid-lexer.js';
+import { compareLikeGrid, compareValues, getFieldValue, isEmptyValue } from './grid-values.js';
+
+export type QueryValue = string | number | boolean;
+
+export type CompareOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type QueryCondition =
+  | { type: 'and'; conditions: QueryCondition[] }
+  | { type: 'or'; conditions: QueryCondition[] }
+  | { type: 'not'; condition: QueryCondition }
+  | { type: 'compare'; column: string; operator: CompareOperator; value: QueryValue }
+  | { type: 'in'; column: string; values: QueryValue[]; negated: boolean }
+  | { type: 'between'; column: string; low: QueryValue; high: QueryValue; negated: boolean }
+  | { type: 'like'; column: string; pattern: string; negated: boolean }
+  | { type: 'null'; column: string; negated: boolean };
+
+export interface QueryOrder {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface GridQuery {
+  /** Selected columns; empty for SELECT * */
+  columns: string[];
+  where?: QueryCondition;
+  orderBy: QueryOrder[];
+  limit?: number;
+}
+
+export interface GridQueryRows {
+  rows: Record<string, any>[];
+  /** Number of rows matching the condition, before LIMIT */
+  matchedRows: number;
+}
+
+/**
+ * Filter AG Grid can apply to a column: its number filter, its text filter, or none we can target
+ */
+export type QueryColumnKind = 'number' | 'text' | 'other';
+
+export type QueryFilterTranslation =
+  | { translatable: true; filterModel: Record<string, any> }
+  | { translatable: false; reason: string };
+
+export interface QueryColumnState {
+  colId: string;
+  hide: boolean;
+  sort: 'asc' | 'desc' | null;
+  sortIndex: number | null;
+}
+
+/**
+ * Number of rows returned when the query has no LIMIT
+ */
+export const DEFAULT_QUERY_ROW_LIMIT = 100;
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+const QUERY_SYNTAX: LexerSyntax = {
+  keywords: new Set([
+    'SELECT', 'FROM', 'WHERE', 'AND', 'OR', 'NOT', 'IN', 'BETWEEN', 'LIKE',
+    'IS', 'NULL', 'ORDER', 'BY', 'ASC', 'DESC', 'LIMIT', 'TRUE', 'FALSE',
+  ]),
+  operators: ['<=', '>=', '<>', '!=', '=', '<', '>'],
+  operatorAliases: { '<>': '!=' },
+  // 'text', and "column name" or `column name`
+  stringQuotes: '\'',
+  identifierQuotes: '"`',
+  punctuation: '(),*;-',
+  identifierName: 'column',
+};
+
+class QueryParser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private fields: string[]) {}
+
+  parse(): GridQuery {
+    this.expectKeyword('SELECT');
+
+    const columns: string[] = [];
+    if (!this.acceptPunctuation('*')) {
+      do {
+        columns.push(this.parseColumn());
+      } while (this.acceptPunctuation(','));
+    }
+
+    // The grid is given separately; a FROM clause is accepted and ignored
+    if (this.acceptKeyword('FROM')) {
+      const source = this.next();
+      if (!source || (source.type !== 'identifier' && source.type !== 'string')) {
+        throw this.error('Expected a name after FROM', source);
+      }
+    }
+
+    const query: GridQuery = { columns, orderBy: [] };
+
+    if (this.acceptKeyword('WHERE')) {
+      query.where = this.parseOr();
+    }
+
+    if (this.acceptKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      do {
+        const column = this.parseColumn();
+        if (this.acceptKeyword('DESC')) {
+          query.orderBy.push({ column, direction: 'desc' });
+        } else {
+          this.acceptKeyword('ASC');
+          query.orderBy.push({ column, direction: 'asc' });
+        }
+      } while (this.acceptPunctuation(','));
+    }
+
+    if (this.acceptKeyword('LIMIT')) {
+      const token = this.next();
+      if (!token || token.type !== 'number' || !/^\d+$/.test(token.value)) {
+        throw this.error('LIMIT expects a whole number', token);
+      }
+      query.limit = Number(token.value);
+    }
+
+    this.acceptPunctuation(';');
+    const rest = this.peek();
+    if (rest) {
+      throw this.error(`Unexpected '${rest.value}'`, rest);
+    }
+
+    return query;
+  }
+
+  private parseOr(): QueryCondition {
+    const conditions = [this.parseAnd()];
+    while (this.acceptKeyword('OR')) {
+      conditions.push(this.parseAnd());
+    }
+    return conditions.length === 1 ? conditions[0] : { type: 'or', conditions };
+  }
+
+  private parseAnd(): QueryCondition {
+    const conditions = [this.parseNot()];
+    while (this.acceptKeyword('AND')) {
+      conditions.push(this.parseNot());
+    }
+    return conditions.length === 1 ? conditions[0] : { type: 'and', conditions };
+  }
+
+  private parseNot(): QueryCondition {
+    if (this.acceptKeyword('NOT')) {
+      return { type: 'not', condition: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryCondition {
+    if (this.acceptPunctuation('(')) {
+      const condition = this.parseOr();
+      this.expectPunctuation(')');
+      return condition;
+    }
+
+    const column = this.parseColumn();
+
+    if (this.acceptKeyword('IS')) {
+      const negated = this.acceptKeyword('NOT');
+      this.expectKeyword('NULL');
+      return { type: 'null', column, negated };
+    }
+
+    const negated = this.acceptKeyword('NOT');
+
+    if (this.acceptKeyword('IN')) {
+      this.expectPunctuation('(');
+      const values: QueryValue[] = [];
+      do {
+        values.push(this.parseLiteral());
+      } while (this.acceptPunctuation(','));
+      this.expectPunctuation(')');
+      return { type: 'in', column, values, negated };
+    }
+
+    if (this.acceptKeyword('BETWEEN')) {
+      const low = this.parseLiteral();
+      this.expectKeyword('AND');
+      const high = this.parseLiteral();
+      return { type: 'between', column, low, high, negated };
+    }
+
+    if (this.acceptKeyword('LIKE')) {
+      const token = this.next();
+      if (!token || token.type !== 'string') {
+        throw this.error('LIKE expects a quoted pattern', token);
+      }
+      return { type: 'like', column, pattern: token.value, negated };
+    }
+
+    if (negated) {
+      throw this.error('Expected IN, BETWEEN or LIKE after NOT', this.peek());
+    }
+
+    const token = this.next();
+    if (!token || token.type !== 'operator') {
+      throw this.error(`Expected a comparison after '${column}'`, token);
+    }
+    if (this.peek()?.type === 'keyword' && this.peek()?.value === 'NULL') {
+      throw this.error(`Use IS NULL or IS NOT NULL to test '${column}' for empty values`, this.peek());
+    }
+
+    return { type: 'compare', column, operator: token.value as CompareOperator, value: this.parseLiteral() };
+  }
+
+  private parseColumn(): string {
+    const token = this.next();
+    if (!token || token.type !== 'identifier') {
+      throw this.error('Expected a column name', token);
+    }
+
+    if (this.fields.includes(token.value)) {
+      return token.value;
+    }
+
+    const matches = this.fields.filter(field => field.toLowerCase() === token.value.toLowerCase());
+    if (matches.length === 1) {
+      return matches[0];
+    }
+
+    throw new Error(`Unknown column '${token.value}'. Available columns: ${this.fields.join(', ')}`);
+  }
+
+  private parseLiteral(): QueryValue {
+    const token = this.next();
+    if (token?.type === 'string') {
+      return token.value;
+    }
+    if (token?.type === 'number') {
+      return Number(token.value);
+    }
+    if (token?.type === 'punctuation' && token.value === '-' && this.peek()?.type === 'number') {
+      return -Number(this.next()!.value);
+    }
+    if (token?.type === 'keyword' && (token.value === 'TRUE' || token.value === 'FALSE')) {
+      return token.value === 'TRUE';
+    }
+    throw this.error('Expected a quoted string, number, TRUE or FALSE', token);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'keyword' && token.value === keyword) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptPunctuation(value: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'punctuation' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      throw this.error(`Expected ${keyword}`, this.peek());
+    }
+  }
+
+  private expectPunctuation(value: string): void {
+    if (!this.acceptPunctuation(value)) {
+      throw this.error(`Expected '${value}'`, this.peek());
+    }
+  }
+
+  private error(message: string, token: Token | undefined): Error {
+    return new Error(token ? `${message} at position ${token.position}` : `${message} at the end of the query`);
+  }
+}
+
+/**
+ * Parse a query, checking every column against the grid's fields
+ * @throws Error describing the syntax error or unknown column
+ */
+export function parseGridQuery(sql: string, fields: string[]): GridQuery {
+  return new QueryParser(tokenize(sql, QUERY_SYNTAX), fields).parse();
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+function likeToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => (char === '%' ? '.*' : char === '_' ? '.' : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'is');
+}
+
+function matchesCondition(condition: QueryCondition, row: Record<string, any>): boolean {
+  switch (condition.type) {
+    case 'and':
+      return condition.conditions.every(child => matchesCondition(child, row));
+    case 'or':
+      return condition.conditions.some(child => matchesCondition(child, row));
+    case 'not':
+      return !matchesCondition(condition.condition, row);
+    case 'null':
+      return isEmptyValue(getFieldValue(row, condition.column)) !== condition.negated;
+  }
+
+  // Like SQL NULL, empty cells never match a comparison, negated or not
+  const value = getFieldValue(row, condition.column);
+  if (isEmptyValue(value)) {
+    return false;
+  }
+
+  switch (condition.type) {
+    case 'compare': {
+      const difference = compareValues(value, condition.value);
+      switch (condition.operator) {
+        case '=': return difference === 0;
+        case '!=': return difference !== 0;
+        case '<': return difference < 0;
+        case '<=': return difference <= 0;
+        case '>': return difference > 0;
+        case '>=': return difference >= 0;
+      }
+      return false;
+    }
+    case 'in':
+      return condition.values.some(candidate => compareValues(value, candidate) === 0) !== condition.negated;
+    case 'between':
+      return (compareValues(value, condition.low) >= 0 && compareValues(value, condition.high) <= 0) !== condition.negated;
+    case 'like':
+      return likeToRegExp(condition.pattern).test(String(value)) !== condition.negated;
+  }
+}
+
+/**
+ * Run a query against row data
+ * @param defaultLimit Number of rows returned when the query has no LIMIT
+ */
+export function runGridQuery(
+  query: GridQuery,
+  rowData: Record<string, any>[],
+  defaultLimit: number = DEFAULT_QUERY_ROW_LIMIT
+): GridQueryRows {
+  const matched = query.where
+    ? rowData.filter(row => matchesCondition(query.where!, row))
+    : [...rowData];
+
+  if (query.orderBy.length > 0) {
+    // Sort as the grid does, so the rows come back in the order the grid shows them
+    matched.sort((a, b) => {
+      for (const { column, direction } of query.orderBy) {
+        const difference = compareLikeGrid(getFieldValue(a, column), getFieldValue(b, column));
+        if (difference !== 0) {
+          return direction === 'asc' ? difference : -difference;
+        }
+      }
+      return 0;
+    });
+  }
+
+  const limited = matched.slice(0, query.limit ?? defaultLimit);
+  const rows = query.columns.length === 0
+    ? limited
+    : limited.map(row => Object.fromEntries(query.columns.map(column => [column, getFieldValue(row, column) ?? null])));
+
+  return { rows, matchedRows: matched.length };
+}
+
+// ---------------------------------------------------------------------------
+// Translation into AG Grid state
+// ---------------------------------------------------------------------------
+
+/**
+ * Work out which AG Grid filter a column uses, as apply_grid_filter does
+ */
+export function inferQueryColumnKind(columnDef: ColumnDef, rowData: Record<string, any>[]): QueryColumnKind {
+  const type = getFilterColumnType(columnDef, rowData);
+  // Date and boolean filters take other condition models than the ones translated here
+  return type === 'number' || type === 'text' ? type : 'other';
+}
+
+interface ColumnFilter {
+  column: string;
+  operator: 'AND' | 'OR';
+  conditions: Record<string, any>[];
+}
+
+const NUMBER_FILTER_TYPES: Record<CompareOperator, string> = {
+  '=': 'equals',
+  '!=': 'notEqual',
+  '<': 'lessThan',
+  '<=': 'lessThanOrEqual',
+  '>': 'greaterThan',
+  '>=': 'greaterThanOrEqual',
+};
+
+/**
+ * Translate one condition on a single column into AG Grid filter conditions
+ * @returns The filter, or the reason it cannot be expressed
+ */
+function translateColumnCondition(
+  condition: QueryCondition,
+  kinds: Record<string, QueryColumnKind>
+): ColumnFilter | string {
+  if (condition.type === 'not') {
+    return 'NOT (...) cannot be expressed as AG Grid filters';
+  }
+
+  if (condition.type === 'and') {
+    return 'AND inside OR cannot be expressed as AG Grid filters';
+  }
+
+  if (condition.type === 'or') {
+    const filters: ColumnFilter[] = [];
+    for (const child of condition.conditions) {
+      const filter = translateColumnCondition(child, kinds);
+      if (typeof filter === 'string') {
+        return filter;
+      }
+      if (filter.conditions.length > 1 && filter.operator === 'AND') {
+        return 'OR of combined conditions cannot be expressed as AG Grid filters';
+      }
+      filters.push(filter);
+    }
+    if (filters.some(filter => filter.column !== filters[0].column)) {
+      return 'OR across different columns cannot be expressed as AG Grid filters';
+    }
+    return { column: filters[0].column, operator: 'OR', conditions: filters.flatMap(filter => filter.conditions) };
+  }
+
+  const { column } = condition;
+  const kind = kinds[column];
+  if (kind === 'other') {
+    return `column '${column}' has no number or text filter to express the condition with`;
+  }
+
+  const single = (type: string, filter?: QueryValue): ColumnFilter => ({
+    column,
+    operator: 'AND',
+    conditions: [filter === undefined ? { filterType: kind, type } : { filterType: kind, type, filter }],
+  });
+  const numbers = (values: QueryValue[]) => kind === 'number' && values.every(value => typeof value === 'number');
+
+  switch (condition.type) {
+    case 'null':
+      return single(condition.negated ? 'notBlank' : 'blank');
+
+    case 'compare':
+      if (numbers([condition.value])) {
+        return single(NUMBER_FILTER_TYPES[condition.operator], condition.value);
+      }
+      if (kind === 'text' && (condition.operator === '=' || condition.operator === '!=')) {
+        return single(condition.operator === '=' ? 'equals' : 'notEqual', String(condition.value));
+      }
+      return `'${column} ${condition.operator} ${condition.value}' cannot be expressed with the ${kind} filter`;
+
+    case 'in': {
+      if (kind === 'number' && !numbers(condition.values)) {
+        return `IN on number column '${column}' needs number values`;
+      }
+      const type = condition.negated ? 'notEqual' : 'equals';
+      return {
+        column,
+        operator: condition.negated ? 'AND' : 'OR',
+        conditions: condition.values.map(value => ({
+          filterType: kind,
+          type,
+          filter: kind === 'number' ? value : String(value),
+        })),
+      };
+    }
+
+    case 'between':
+      if (!numbers([condition.low, condition.high])) {
+        return `BETWEEN on '${column}' can only be expressed with the number filter`;
+      }
+      return condition.negated
+        ? {
+          column,
+          operator: 'OR',
+          conditions: [
+            { filterType: 'number', type: 'lessThan', filter: condition.low },
+            { filterType: 'number', type: 'greaterThan', filter: condition.high },
+          ],
+        }
+        : {
+          column,
+          operator: 'AND',
+          conditions: [
+            { filterType: 'number', type: 'greaterThanOrEqual', filter: condition.low },
+            { filterType: 'number', type: 'lessThanOrEqual', filter: condition.high },
+          ],
+        };
+
+    case 'like': {
+      const pattern = condition.pattern;
+      const inner = pattern.replace(/^%/, '').replace(/%$/, '');
+      if (kind !== 'text' || inner === '' || /[%_]/.test(inner)) {
+        return `LIKE '${pattern}' cannot be expressed with the ${kind} filter`;
+      }
+
+      const leading = pattern.startsWith('%');
+      const trailing = pattern.length > 1 && pattern.endsWith('%');
+      if (leading && trailing) {
+        return single(condition.negated ? 'notContains' : 'contains', inner);
+      }
+      if (!leading && !trailing) {
+        return single(condition.negated ? 'notEqual' : 'equals', inner);
+      }
+      if (condition.negated) {
+        return `NOT LIKE '${pattern}' cannot be expressed with the text filter`;
+      }
+      return single(leading ? 'endsWith' : 'startsWith', inner);
+    }
+  }
+}
+
+/**
+ * Translate the WHERE clause of a query into an AG Grid filter model, which
+ * combines columns with AND and holds at most two conditions per column
+ */
+export function translateQueryFilter(
+  query: GridQuery,
+  kinds: Record<string, QueryColumnKind>,
+  colIds: Record<string, string>
+): QueryFilterTranslation {
+  if (!query.where) {
+    return { translatable: true, filterModel: {} };
+  }
+
+  const terms = query.where.type === 'and' ? query.where.conditions : [query.where];
+  const filters = new Map<string, ColumnFilter>();
+
+  for (const term of terms) {
+    const filter = translateColumnCondition(term, kinds);
+    if (typeof filter === 'string') {
+      return { translatable: false, reason: filter };
+    }
+
+    const existing = filters.get(filter.column);
+    if (!existing) {
+      filters.set(filter.column, filter);
+      continue;
+    }
+
+    const isAnd = (candidate: ColumnFilter) => candidate.operator === 'AND' || candidate.conditions.length === 1;
+    if (!isAnd(existing) || !isAnd(filter)) {
+      return { translatable: false, reason: `conditions on '${filter.column}' mix AND and OR` };
+    }
+    existing.operator = 'AND';
+    existing.conditions.push(...filter.conditions);
+  }
+
+  const filterModel: Record<string, any> = {};
+  for (const filter of filters.values()) {
+    if (filter.conditions.length > 2) {
+      return {
+        translatable: false,
+        reason: `AG Grid filters hold at most two conditions per column, '${filter.column}' needs ${filter.conditions.length}`,
+      };
+    }
+
+    filterModel[colIds[filter.column] ?? filter.column] = filter.conditions.length === 1
+      ? filter.conditions[0]
+      : { filterType: filter.conditions[0].filterType, operator: filter.operator, conditions: filter.conditions };
+  }
+
+  return { translatable: true, filterModel };
+}
+
+/**
+ * Build the column state showing the selected columns (first, in SELECT
+ * order) and the ORDER BY sort; other columns keep their current order
+ * @param columnOrder Column IDs in their current order
+ */
+export function buildQueryColumnState(
+  query: GridQuery,
+  columnOrder: string[],
+  colIds: Record<string, string>
+): QueryColumnState[] {
+  const selected = query.columns.map(column => colIds[column] ?? column);
+  const sorted = query.orderBy.map(order => colIds[order.column] ?? order.column);
+  const order = [...selected, ...columnOrder.filter(colId => !selected.includes(colId))];
+
+  return order.map(colId => {
+    const sortIndex = sorted.indexOf(colId);
+    return {
+      colId,
+      hide: selected.length > 0 && !selected.includes(colId),
+      sort: sortIndex === -1 ? null : query.orderBy[sortIndex].direction,
+      sortIndex: sortIndex === -1 ? null : sortIndex,
+    };
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * Cell value helpers shared by queries, aggregations and computed columns
+ *
+ * Values are read and compared the way the grid shows them: dotted fields
+ * are paths into nested objects, and sorting follows AG Grid's default
+ * comparator so that a query's ORDER BY matches the grid's sort.
+ */
+
+/**
+ * Whether a cell is empty: null, undefined or the empty string
+ */
+export function isEmptyValue(value: any): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+/**
+ * Read a field of a row; like AG Grid, dotted fields are paths into nested
+ * objects unless the row has a key with the dots in it
+ */
+export function getFieldValue(row: Record<string, any>, field: string): any {
+  if (field in row || !field.includes('.')) {
+    return row[field];
+  }
+  return field.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), row);
+}
+
+/**
+ * Compare a cell value with a literal or another cell value: numbers
+ * numerically (also against numeric text), everything else as
+ * case-insensitive text
+ */
+export function compareValues(a: any, b: any): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  if (typeof a === 'number' && typeof b === 'string' && b.trim() !== '' && !isNaN(Number(b))) {
+    return a - Number(b);
+  }
+
+  const left = String(a).toLowerCase();
+  const right = String(b).toLowerCase();
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Compare two cell values for sorting as AG Grid's default comparator does:
+ * null and undefined first, everything else with < and >, so text sorts
+ * case-sensitively by code point
+ */
+export function compareLikeGrid(a: any, b: any): number {
+  const aMissing = a === null || a === undefined;
+  const bMissing = b === null || b === undefined;
+  if (aMissing || bMissing) {
+    return Number(!aMissing) - Number(!bMissing);
+  }
+  return a > b ? 1 : a < b ? -1 : 0;
+}
@@ -0,0 +1,230 @@
+/**
+ * Named grid versions and diffs between them
+ *
+ * A version is a copy of a grid's `GridConfig` taken when it was tagged.
+ * Diffs match rows of two configs by a key field and compare them field by
+ * field, and compare column definitions by field.
+ */
+
+import type { ColumnDef, GridConfig } from './grid-manager.js';
+
+export interface GridVersion {
+  name: string;
+  description?: string;
+  createdAt: string;
+  config: GridConfig;
+}
+
+export interface GridVersionInfo {
+  name: string;
+  description?: string;
+  createdAt: string;
+  rowCount: number;
+  columnCount: number;
+}
+
+export interface FieldChange {
+  before: any;
+  after: any;
+}
+
+export interface RowChange {
+  key: string;
+  changes: Record<string, FieldChange>;
+}
+
+export interface ColumnChange {
+  field: string;
+  changes: Record<string, FieldChange>;
+}
+
+export interface GridDiff {
+  from: string;
+  to: string;
+  keyField: string;
+  summary: {
+    addedRows: number;
+    removedRows: number;
+    changedRows: number;
+    unchangedRows: number;
+    addedColumns: number;
+    removedColumns: number;
+    changedColumns: number;
+  };
+  rows: {
+    added: Record<string, any>[];
+    removed: Record<string, any>[];
+    changed: RowChange[];
+  };
+  columns: {
+    added: ColumnDef[];
+    removed: ColumnDef[];
+    changed: ColumnChange[];
+  };
+  /** Whether row lists were cut off at the row limit; the summary always has the full counts */
+  truncated: boolean;
+}
+
+/**
+ * Name that refers to the live grid instead of a tagged version
+ */
+export const CURRENT_VERSION = 'current';
+
+/**
+ * Number of rows listed per category in a diff when not configured
+ */
+export const DEFAULT_DIFF_ROW_LIMIT = 100;
+
+/**
+ * Copy a grid config so later changes to the grid do not affect the version.
+ * Rows are replaced rather than mutated by the GridManager, so the row
+ * objects themselves can be shared.
+ */
+export function copyGridConfig(config: GridConfig): GridConfig {
+  return {
+    ...config,
+    columnDefs: config.columnDefs.map(columnDef => ({ ...columnDef })),
+    rowData: [...config.rowData],
+  };
+}
+
+export function describeVersion(version: GridVersion): GridVersionInfo {
+  return {
+    name: version.name,
+    description: version.description,
+    createdAt: version.createdAt,
+    rowCount: version.config.rowData.length,
+    columnCount: version.config.columnDefs.length,
+  };
+}
+
+function isEqualValue(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a === 'object' && typeof b === 'object' && a !== null && b !== null) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return false;
+}
+
+/**
+ * Compare two objects key by key
+ * @returns The keys whose values differ, with their before and after values
+ */
+function diffObjects(before: Record<string, any>, after: Record<string, any>): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    if (!isEqualValue(before[key], after[key])) {
+      changes[key] = { before: before[key] ?? null, after: after[key] ?? null };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Index rows by their key field
+ * @throws Error when a row has no key or a key is used twice
+ */
+function indexRows(rows: Record<string, any>[], keyField: string, label: string): Map<string, Record<string, any>> {
+  const index = new Map<string, Record<string, any>>();
+
+  for (const row of rows) {
+    const value = row[keyField];
+    if (value === undefined || value === null || value === '') {
+      throw new Error(`A row in '${label}' is missing the key field '${keyField}'`);
+    }
+
+    const key = String(value);
+    if (index.has(key)) {
+      throw new Error(`Duplicate key '${key}' in field '${keyField}' in '${label}'`);
+    }
+    index.set(key, row);
+  }
+
+  return index;
+}
+
+/**
+ * Diff two grid configs, matching rows by `keyField`
+ */
+export function diffGridConfigs(
+  from: { name: string; config: GridConfig },
+  to: { name: string; config: GridConfig },
+  keyField: string,
+  rowLimit: number = DEFAULT_DIFF_ROW_LIMIT
+): GridDiff {
+  const fromRows = indexRows(from.config.rowData, keyField, from.name);
+  const toRows = indexRows(to.config.rowData, keyField, to.name);
+
+  const added: Record<string, any>[] = [];
+  const removed: Record<string, any>[] = [];
+  const changed: RowChange[] = [];
+  let unchanged = 0;
+
+  for (const [key, row] of fromRows) {
+    const nextRow = toRows.get(key);
+    if (!nextRow) {
+      removed.push(row);
+      continue;
+    }
+
+    const changes = diffObjects(row, nextRow);
+    if (Object.keys(changes).length > 0) {
+      changed.push({ key, changes });
+    } else {
+      unchanged++;
+    }
+  }
+
+  for (const [key, row] of toRows) {
+    if (!fromRows.has(key)) {
+      added.push(row);
+    }
+  }
+
+  const fromColumns = new Map(from.config.columnDefs.map(column => [column.field, column]));
+  const toColumns = new Map(to.config.columnDefs.map(column => [column.field, column]));
+  const addedColumns = to.config.columnDefs.filter(column => !fromColumns.has(column.field));
+  const removedColumns = from.config.columnDefs.filter(column => !toColumns.has(column.field));
+  const changedColumns: ColumnChange[] = [];
+
+  for (const [field, column] of fromColumns) {
+    const nextColumn = toColumns.get(field);
+    if (nextColumn) {
+      const changes = diffObjects(column, nextColumn);
+      if (Object.keys(changes).length > 0) {
+        changedColumns.push({ field, changes });
+      }
+    }
+  }
+
+  return {
+    from: from.name,
+    to: to.name,
+    keyField,
+    summary: {
+      addedRows: added.length,
+      removedRows: removed.length,
+      changedRows: changed.length,
+      unchangedRows: unchanged,
+      addedColumns: addedColumns.length,
+      removedColumns: removedColumns.length,
+      changedColumns: changedColumns.length,
+    },
+    rows: {
+      added: added.slice(0, rowLimit),
+      removed: removed.slice(0, rowLimit),
+      changed: changed.slice(0, rowLimit),
+    },
+    columns: {
+      added: addedColumns,
+      removed: removedColumns,
+      changed: changedColumns,
+    },
+    truncated: Math.max(added.length, removed.length, changed.length) > rowLimit,
+  };
+}
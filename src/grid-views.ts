@@ -0,0 +1,43 @@
+/**
+ * Saved named views of a grid
+ *
+ * A view is the column state (order, width, visibility, pinning, sort) and
+ * filter model of a grid saved under a name, so that a combination of
+ * filters and sorting can be brought back later. Views only hold view state;
+ * the grid's data and column definitions are not part of them.
+ */
+
+import type { GridViewState } from './grid-manager.js';
+
+export interface GridView {
+  name: string;
+  description?: string;
+  createdAt: string;
+  state: GridViewState;
+}
+
+export interface GridViewInfo {
+  name: string;
+  description?: string;
+  createdAt: string;
+  /** Sorted columns in sort order, e.g. `amount desc` */
+  sort: string[];
+  filteredColumns: string[];
+  hiddenColumns: string[];
+}
+
+export function describeView(view: GridView): GridViewInfo {
+  const { columnState, filterModel } = view.state;
+
+  return {
+    name: view.name,
+    description: view.description,
+    createdAt: view.createdAt,
+    sort: columnState
+      .filter(column => column.sort)
+      .sort((a, b) => (a.sortIndex ?? 0) - (b.sortIndex ?? 0))
+      .map(column => `${column.colId} ${column.sort}`),
+    filteredColumns: Object.keys(filterModel || {}),
+    hiddenColumns: columnState.filter(column => column.hide).map(column => column.colId),
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * Pool of pre-warmed Puppeteer pages for grid creation
+ *
+ * Loading the grid HTML and waiting for the AG Grid system takes seconds per
+ * page. The pool keeps a number of pages ready so that creating a grid only
+ * has to call `createAGGrid`, and recycles pages of destroyed grids.
+ */
+
+import type { Page } from 'puppeteer';
+
+export interface PagePoolOptions {
+  /** Number of ready pages to keep in the pool */
+  size: number;
+}
+
+export interface PagePoolStats {
+  size: number;
+  available: number;
+  warming: number;
+  inUse: number;
+  created: number;
+  hits: number;
+  misses: number;
+  recycled: number;
+  discarded: number;
+}
+
+export class PagePool {
+  private available: Page[] = [];
+  private inUse: Set<Page> = new Set();
+  private warming = 0;
+  private stats = { created: 0, hits: 0, misses: 0, recycled: 0, discarded: 0 };
+  private isDraining = false;
+
+  constructor(
+    private createPage: () => Promise<Page>,
+    private resetPage: (page: Page) => Promise<void>,
+    private options: PagePoolOptions
+  ) {}
+
+  /**
+   * Top the pool up to its configured size
+   */
+  async fill(): Promise<void> {
+    this.isDraining = false;
+    const missing = this.options.size - this.available.length - this.warming;
+    if (missing <= 0) {
+      return;
+    }
+
+    const warmups = Array.from({ length: missing }, async () => {
+      this.warming++;
+      try {
+        const page = await this.createPage();
+        this.stats.created++;
+
+        if (this.isDraining) {
+          await page.close();
+        } else {
+          this.available.push(page);
+        }
+      } catch (error) {
+        console.error('PagePool: Failed to warm page:', error);
+      } finally {
+        this.warming--;
+      }
+    });
+
+    await Promise.all(warmups);
+  }
+
+  /**
+   * Take a ready page from the pool, or create one if the pool is empty
+   */
+  async acquire(): Promise<Page> {
+    let page = this.available.pop();
+
+    if (page && !page.isClosed()) {
+      this.stats.hits++;
+    } else {
+      this.stats.misses++;
+      page = await this.createPage();
+      this.stats.created++;
+    }
+
+    this.inUse.add(page);
+
+    // Replace the page we just took in the background
+    this.fill().catch((error) => {
+      console.error('PagePool: Failed to refill pool:', error);
+    });
+
+    return page;
+  }
+
+  /**
+   * Reset a page and return it to the pool; pages that cannot be reset or
+   * do not fit into the pool are closed
+   */
+  async release(page: Page): Promise<void> {
+    this.inUse.delete(page);
+
+    if (page.isClosed()) {
+      return;
+    }
+
+    if (!this.isDraining && this.available.length < this.options.size) {
+      try {
+        await this.resetPage(page);
+        this.available.push(page);
+        this.stats.recycled++;
+        return;
+      } catch (error) {
+        console.error('PagePool: Failed to reset page, closing it:', error);
+      }
+    }
+
+    this.stats.discarded++;
+    await page.close();
+  }
+
+  /**
+   * Stop tracking a page without closing it, e.g. after its renderer crashed
+   */
+  forget(page: Page): void {
+    this.inUse.delete(page);
+    this.available = this.available.filter(candidate => candidate !== page);
+    this.stats.discarded++;
+  }
+
+  /**
+   * Drop all pages without closing them, e.g. after the browser disconnected
+   */
+  reset(): void {
+    this.stats.discarded += this.available.length + this.inUse.size;
+    this.available = [];
+    this.inUse.clear();
+  }
+
+  /**
+   * Close all idle pages and stop warming new ones
+   */
+  async drain(): Promise<void> {
+    this.isDraining = true;
+    const pages = this.available;
+    this.available = [];
+
+    await Promise.all(pages.map(async (page) => {
+      try {
+        if (!page.isClosed()) {
+          await page.close();
+        }
+      } catch (error) {
+        console.error('PagePool: Error closing pooled page:', error);
+      }
+    }));
+  }
+
+  /**
+   * Get pool statistics
+   */
+  getStats(): PagePoolStats {
+    return {
+      size: this.options.size,
+      available: this.available.length,
+      warming: this.warming,
+      inUse: this.inUse.size,
+      ...this.stats,
+    };
+  }
+}
+
+export default PagePool;
@@ -1,4 +1,4 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { GridManager, GridManagerError, type ColumnDef } from '../grid-manager.js';
 
 /**
@@ -9,6 +9,7 @@ export const GRID_RESOURCE_URIS = {
   GRID_SCHEMA: 'grid://schema/{gridId}',
   GRID_DATA_SAMPLE: 'grid://data/{gridId}',
   GRID_SUMMARY: 'grid://summary/{gridId}',
+  GRID_DIFF: 'grid://diff/{gridId}/{from}/{to}',
 } as const;
 
 /**
@@ -99,7 +100,7 @@ function analyzeColumnData(data: any[], field: string, columnDef: ColumnDef): Co
 /**
  * Infer data type from sample values
  */
-function inferDataType(values: any[]): string {
+export function inferDataType(values: any[]): string {
   if (values.length === 0) return 'unknown';
   
   const sample = values.slice(0, 10);
@@ -136,8 +137,7 @@ async function generateGridSummary(gridManager: GridManager, gridId: string): Pr
     const gridState = await gridManager.getGridState(gridId);
     
     // Get current data from the grid
-    const currentData = await gridManager.executeGridMethod(gridId, 'getRenderedNodes');
-    const rowData = currentData ? currentData.map((node: any) => node.data) : gridInfo.config.rowData;
+    const rowData = await gridManager.getDisplayedRowData(gridId);
     
     // Analyze each column
     const columnStats = gridInfo.config.columnDefs.map(colDef => 
@@ -191,6 +191,7 @@ export function setupDataResources(server: McpServer, gridManager: GridManager):
             const info = gridManager.getGridInfo(gridId);
             return {
               gridId,
+              name: info.name,
               createdAt: info.createdAt,
               lastUpdated: info.lastUpdated,
               columnCount: info.config.columnDefs.length,
@@ -243,7 +244,7 @@ export function setupDataResources(server: McpServer, gridManager: GridManager):
     'Grid Schema',
     GRID_RESOURCE_URIS.GRID_SCHEMA,
     async (uri) => {
-      const gridId = uri.toString().replace('grid://schema/', '');
+      const gridId = decodeURIComponent(uri.toString().replace('grid://schema/', ''));
       
       try {
         const gridInfo = gridManager.getGridInfo(gridId);
@@ -309,7 +310,7 @@ export function setupDataResources(server: McpServer, gridManager: GridManager):
     'Grid Data Sample',
     GRID_RESOURCE_URIS.GRID_DATA_SAMPLE,
     async (uri) => {
-      const gridId = uri.toString().replace('grid://data/', '');
+      const gridId = decodeURIComponent(uri.toString().replace('grid://data/', ''));
       
       try {
         const gridInfo = gridManager.getGridInfo(gridId);
@@ -318,10 +319,10 @@ export function setupDataResources(server: McpServer, gridManager: GridManager):
         // Get current displayed data (respecting filters/sorting)
         let sampleData: any[];
         try {
-          const displayedNodes = await gridManager.executeGridMethod(gridId, 'getRenderedNodes');
-          sampleData = displayedNodes ? displayedNodes.slice(0, 10).map((node: any) => node.data) : [];
+          const displayedRows = await gridManager.getDisplayedRowData(gridId);
+          sampleData = displayedRows.slice(0, 10);
         } catch {
-          // Fallback to original data if rendered nodes not available
+          // Fallback to original data if the displayed rows are not available
           sampleData = gridInfo.config.rowData.slice(0, 10);
         }
 
@@ -369,7 +370,7 @@ export function setupDataResources(server: McpServer, gridManager: GridManager):
     'Grid Statistical Summary',
     GRID_RESOURCE_URIS.GRID_SUMMARY,
     async (uri) => {
-      const gridId = uri.toString().replace('grid://summary/', '');
+      const gridId = decodeURIComponent(uri.toString().replace('grid://summary/', ''));
       
       try {
         const summary = await generateGridSummary(gridManager, gridId);
@@ -400,6 +401,43 @@ export function setupDataResources(server: McpServer, gridManager: GridManager):
     }
   );
 
+  // Resource 5: Grid Diff - Differences between two tagged versions
+  server.resource(
+    'Grid Version Diff',
+    new ResourceTemplate(GRID_RESOURCE_URIS.GRID_DIFF, { list: undefined }),
+    async (uri, variables) => {
+      const [gridId, from, to] = [variables.gridId, variables.from, variables.to]
+        .map(value => decodeURIComponent(String(value)));
+
+      try {
+        const diff = gridManager.diffGridVersions(gridId, from, to);
+
+        return {
+          contents: [{
+            uri: uri.toString(),
+            mimeType: CONTENT_TYPES.JSON,
+            text: JSON.stringify({ gridId, ...diff, generatedAt: new Date().toISOString() }, null, 2),
+          }]
+        };
+      } catch (error) {
+        const errorResponse = {
+          gridId,
+          error: 'Failed to diff grid versions',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          generatedAt: new Date().toISOString(),
+        };
+
+        return {
+          contents: [{
+            uri: uri.toString(),
+            mimeType: CONTENT_TYPES.JSON,
+            text: JSON.stringify(errorResponse, null, 2),
+          }]
+        };
+      }
+    }
+  );
+
   console.error('✅ AG Grid data resources registered successfully');
 }
 
@@ -414,6 +452,16 @@ export function buildResourceUri(type: keyof typeof GRID_RESOURCE_URIS, gridId?:
   return template;
 }
 
+/**
+ * Build the diff resource URI for two versions of a grid
+ */
+export function buildDiffResourceUri(gridId: string, from: string, to: string): string {
+  return GRID_RESOURCE_URIS.GRID_DIFF
+    .replace('{gridId}', encodeURIComponent(gridId))
+    .replace('{from}', encodeURIComponent(from))
+    .replace('{to}', encodeURIComponent(to));
+}
+
 /**
  * Utility function to get all available resource URIs for a grid
  */
@@ -438,16 +486,21 @@ export const RESOURCE_METADATA = {
   [GRID_RESOURCE_URIS.GRID_SCHEMA]: {
     description: 'Returns column definitions and current grid state',
     example: 'grid://schema/grid_123456',
-    parameters: 'gridId - The unique identifier of the grid',
+    parameters: 'gridId - The unique identifier or name of the grid',
   },
   [GRID_RESOURCE_URIS.GRID_DATA_SAMPLE]: {
     description: 'Returns first 10 rows of grid data (respects current filters/sorting)',
     example: 'grid://data/grid_123456',
-    parameters: 'gridId - The unique identifier of the grid',
+    parameters: 'gridId - The unique identifier or name of the grid',
   },
   [GRID_RESOURCE_URIS.GRID_SUMMARY]: {
     description: 'Returns comprehensive statistical analysis of grid data',
     example: 'grid://summary/grid_123456',
-    parameters: 'gridId - The unique identifier of the grid',
+    parameters: 'gridId - The unique identifier or name of the grid',
+  },
+  [GRID_RESOURCE_URIS.GRID_DIFF]: {
+    description: 'Returns added, removed and changed rows and column changes between two tagged versions, matched by the rowIdField',
+    example: 'grid://diff/grid_123456/before%20cleanup/current',
+    parameters: 'gridId - The unique identifier or name of the grid; from, to - Version names, or "current" for the live grid',
   },
 };
\ No newline at end of file
@@ -63,6 +63,43 @@ function debugLog(message: string, data?: any): void {
   }
 }
 
+/**
+ * Read a whole-number setting from the environment
+ * @param min - Smallest allowed value
+ * @returns The value, or undefined when the variable is not set
+ * @throws Error when the variable is set to anything but a whole number of at least `min`
+ */
+function readIntegerEnv(name: string, min: number): number | undefined {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  if (!/^\d+$/.test(raw) || !Number.isSafeInteger(value) || value < min) {
+    throw new Error(`Invalid ${name} '${raw}': expected a whole number of at least ${min}`);
+  }
+  return value;
+}
+
+/**
+ * Read a positive number setting from the environment
+ * @returns The value, or undefined when the variable is not set
+ * @throws Error when the variable is set to anything but a positive number
+ */
+function readPositiveNumberEnv(name: string): number | undefined {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`Invalid ${name} '${raw}': expected a positive number`);
+  }
+  return value;
+}
+
 /**
  * Performance timing helper
  */
@@ -88,10 +125,30 @@ function timeOperation<T>(operationName: string, operation: () => Promise<T>): P
 async function initializeGridManager(): Promise<GridManager> {
   return timeOperation('GridManager initialization', async () => {
     logToStderr('Initializing GridManager...');
+
+    // Fail fast on malformed limits instead of silently running without them
+    const idleTtlMinutes = readPositiveNumberEnv('GRID_IDLE_TTL_MINUTES');
+    const limits = {
+      pagePoolSize: readIntegerEnv('PAGE_POOL_SIZE', 0),
+      maxGrids: readIntegerEnv('MAX_GRIDS', 1),
+      maxTotalRows: readIntegerEnv('MAX_TOTAL_ROWS', 1),
+      idleTtlMs: idleTtlMinutes !== undefined ? idleTtlMinutes * 60 * 1000 : undefined,
+      historyLimit: readIntegerEnv('GRID_HISTORY_LIMIT', 0),
+    };
+
     debugLog('GridManager configuration', {
       headless: true,
       devtools: process.env.NODE_ENV === 'development',
       viewport: { width: 1920, height: 1080 },
+      exportDir: process.env.EXPORT_DIR || 'default',
+      pagePoolSize: process.env.PAGE_POOL_SIZE || 'default',
+      dataDir: process.env.GRID_DATA_DIR || 'default',
+      persistGrids: process.env.PERSIST_GRIDS === 'true',
+      maxGrids: process.env.MAX_GRIDS || 'unlimited',
+      maxTotalRows: process.env.MAX_TOTAL_ROWS || 'unlimited',
+      idleTtlMinutes: process.env.GRID_IDLE_TTL_MINUTES || 'disabled',
+      evictionPolicy: process.env.GRID_EVICTION_POLICY || 'destroy',
+      historyLimit: process.env.GRID_HISTORY_LIMIT || 'default',
       nodeEnv: process.env.NODE_ENV,
       debugEnabled: !!process.env.DEBUG,
     });
@@ -103,6 +160,11 @@ async function initializeGridManager(): Promise<GridManager> {
         width: 1920,
         height: 1080,
       },
+      exportDir: process.env.EXPORT_DIR || undefined,
+      dataDir: process.env.GRID_DATA_DIR || undefined,
+      persistGrids: process.env.PERSIST_GRIDS === 'true',
+      evictionPolicy: process.env.GRID_EVICTION_POLICY === 'archive' ? 'archive' : 'destroy',
+      ...limits,
     });
 
     await manager.initialize();
@@ -173,7 +235,7 @@ function setupHelpTools(server: McpServer, gridManager: GridManager): void {
           description: "This MCP server provides comprehensive AG Grid functionality for data visualization and analysis.",
           features: [
             "Create interactive data grids with sorting, filtering, and selection",
-            "Export grid data to CSV and Excel formats", 
+            "Export grid data to CSV, Excel, JSON, NDJSON, Markdown, HTML and PDF", 
             "Access pre-built demo scenarios for quick testing",
             "Manage multiple grids simultaneously",
             "Get detailed grid statistics and state information",
@@ -183,7 +245,7 @@ function setupHelpTools(server: McpServer, gridManager: GridManager): void {
         tools: [
           {
             name: "create_grid",
-            description: "Create a new AG Grid with column definitions and data",
+            description: "Create a new AG Grid with column definitions and data, or infer the columns from the data",
             usage: "Perfect for displaying tabular data with interactive features"
           },
           {
@@ -194,11 +256,11 @@ function setupHelpTools(server: McpServer, gridManager: GridManager): void {
           {
             name: "apply_grid_filter",
             description: "Apply filters to grid data",
-            usage: "Filter data by specific criteria using AG Grid filter model"
+            usage: "Filter data with {field, op, value} conditions in and/or groups, or an AG Grid filter model"
           },
           {
             name: "export_grid",
-            description: "Export grid data to CSV or Excel",
+            description: "Export grid data to CSV, Excel, JSON, NDJSON, Markdown, HTML or PDF",
             usage: "Generate reports or share data in standard formats"
           },
           {
@@ -208,13 +270,113 @@ function setupHelpTools(server: McpServer, gridManager: GridManager): void {
           },
           {
             name: "execute_grid_method",
-            description: "Execute any AG Grid API method",
-            usage: "Advanced operations like selectAll, clearSelection, etc."
+            description: "Execute an allowed AG Grid API method",
+            usage: "Advanced operations like selectAll, deselectAll, sizeColumnsToFit, etc."
           },
           {
             name: "load_demo_scenario",
             description: "Load pre-built demo scenarios with realistic data",
             usage: "Quick start with sales, employee, financial, or ecommerce data"
+          },
+          {
+            name: "screenshot_grid",
+            description: "Render a grid to a PNG image",
+            usage: "Show stakeholders what a grid looks like inline"
+          },
+          {
+            name: "save_grid",
+            description: "Save a grid snapshot to disk",
+            usage: "Checkpoint a grid so it survives server restarts"
+          },
+          {
+            name: "restore_grid",
+            description: "Restore a grid from its saved snapshot",
+            usage: "Bring back a saved grid with the same grid ID"
+          },
+          {
+            name: "apply_grid_transaction",
+            description: "Add, update and remove individual rows",
+            usage: "Change a few rows of a large grid without replacing all data"
+          },
+          {
+            name: "undo_grid_change",
+            description: "Undo the most recent change to a grid",
+            usage: "Revert a wrong filter, data update or column change"
+          },
+          {
+            name: "redo_grid_change",
+            description: "Redo the most recently undone change",
+            usage: "Re-apply a change that was undone"
+          },
+          {
+            name: "get_grid_history",
+            description: "List the undoable and redoable changes of a grid",
+            usage: "See what undo and redo would change"
+          },
+          {
+            name: "tag_grid_version",
+            description: "Checkpoint a grid under a version name",
+            usage: "Tag 'before cleanup' before changing data"
+          },
+          {
+            name: "diff_grid_versions",
+            description: "Compare two grid versions row by row",
+            usage: "See which rows and columns changed since a checkpoint"
+          },
+          {
+            name: "rename_grid",
+            description: "Give a grid a human-friendly name usable in place of its ID",
+            usage: "Name a grid 'sales-q3' and refer to it by that name"
+          },
+          {
+            name: "clone_grid",
+            description: "Copy a grid, or only its filtered and sorted rows, into a new grid",
+            usage: "Branch an analysis on the rows of a filtered view"
+          },
+          {
+            name: "save_grid_view",
+            description: "Save the column state, sorting and filters of a grid as a named view",
+            usage: "Save 'top customers' after filtering and sorting"
+          },
+          {
+            name: "apply_grid_view",
+            description: "Restore a saved view",
+            usage: "Switch back to the 'top customers' view"
+          },
+          {
+            name: "list_grid_views",
+            description: "List the saved views of a grid",
+            usage: "See which views are available"
+          },
+          {
+            name: "delete_grid_view",
+            description: "Delete a saved view",
+            usage: "Remove views that are no longer needed"
+          },
+          {
+            name: "query_grid",
+            description: "Query a grid with SELECT ... WHERE ... ORDER BY ... LIMIT",
+            usage: "SELECT region, amount WHERE amount > 1000 ORDER BY amount DESC LIMIT 5"
+          },
+          {
+            name: "aggregate_grid",
+            description: "Group the filtered rows and compute sums, averages, counts and more per group",
+            usage: "Total revenue and order count by region"
+          },
+          {
+            name: "pivot_grid",
+            description: "Pivot the filtered rows into a new linked grid with column groups and totals",
+            usage: "Revenue by region with one column per quarter"
+          },
+          {
+            name: "add_computed_column",
+            description: "Add a column computed from each row with an expression, kept up to date as data changes",
+            usage: "profitMargin = round(profit / revenue * 100, 1)"
+          },
+          {
+            name: "set_conditional_formatting",
+            description: "Style cells or rows matching a condition in the web viewer and screenshots",
+            usage: "Show negative profits in red and highlight overdue rows"
           }
         ],
         resources: [
@@ -233,6 +395,10 @@ function setupHelpTools(server: McpServer, gridManager: GridManager): void {
           {
             name: "grid://summary/{gridId}",
             description: "Get data quality analysis and summary statistics"
+          },
+          {
+            name: "grid://diff/{gridId}/{from}/{to}",
+            description: "Diff two tagged versions of a grid ('current' for the live grid)"
           }
         ],
         demoScenarios: availableScenarios,
@@ -325,7 +491,9 @@ function setupHelpTools(server: McpServer, gridManager: GridManager): void {
         gridManager: {
           isInitialized: !!gridManager,
           activeGrids: activeGrids.length,
-          gridIds: activeGrids
+          gridIds: activeGrids,
+          pagePool: gridManager.getPagePoolStats(),
+          resources: gridManager.getResourceUsage()
         },
         webServer: {
           isRunning: webServer?.isServerRunning() || false,
@@ -333,8 +501,8 @@ function setupHelpTools(server: McpServer, gridManager: GridManager): void {
           dashboardUrl: webServer?.getUrl() || 'Not available',
         },
         capabilities: {
-          tools: 11, // Total number of tools
-          resources: 4, // Total number of resource patterns
+          tools: 31, // Total number of tools
+          resources: 5, // Total number of resource patterns
           demoScenarios: getAllDemoScenarios().length,
           browserAutomation: true,
           dataExport: true,
@@ -406,6 +574,12 @@ async function setupMcpServer(): Promise<McpServer> {
       logToStderr('WebServer disabled by DISABLE_WEB_SERVER environment variable');
     }
 
+    // Recreate persisted grids once WebSocket events can reach the web viewer
+    const restoredGrids = await gridManager.restorePersistedGrids();
+    if (restoredGrids.length > 0) {
+      logToStderr(`Restored ${restoredGrids.length} persisted grid(s)`);
+    }
+
     // Register tools and resources
     logToStderr('Registering tools and resources...');
     debugLog('Registering AG Grid tools and data resources');
@@ -422,8 +596,8 @@ async function setupMcpServer(): Promise<McpServer> {
       gridManagerReady: true,
       webServerReady: true,
       webServerUrl: webServer.getUrl(),
-      totalTools: 11, // 8 grid tools + 3 help tools
-      totalResources: 4,
+      totalTools: 31, // 28 grid tools + 3 help tools
+      totalResources: 5,
     });
     
     return server;
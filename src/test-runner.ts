@@ -7,7 +7,12 @@
  * Tests all tools, resources, and validates the complete workflow.
  */
 
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Browser, Page } from 'puppeteer';
 import { GridManager, GridManagerError } from './grid-manager.js';
+import { compileFilter } from './grid-filters.js';
+import { inferColumnDefs } from './grid-columns.js';
 import { 
   generateTestDataset,
   type SalesRecord,
@@ -46,6 +51,7 @@ class TestRunner {
       headless: true,
       devtools: false,
       viewport: { width: 1920, height: 1080 },
+      dataDir: join(tmpdir(), 'ag-grid-mcp-test-data'),
     });
   }
 
@@ -264,7 +270,74 @@ class TestRunner {
       throw new Error('Excel export failed or returned invalid data');
     }
 
-    return { csvExport, excelExport };
+    // .xlsx workbooks are zip archives and must start with the "PK" signature
+    const workbook = Buffer.from(excelExport.data, excelExport.encoding);
+    if (excelExport.encoding !== 'base64' || workbook.subarray(0, 2).toString() !== 'PK') {
+      throw new Error('Excel export did not return a base64-encoded .xlsx workbook');
+    }
+
+    // Test JSON export respects the current filter
+    const jsonExport = await this.gridManager.exportGridData(gridId, 'json');
+    const jsonRows = JSON.parse(jsonExport.data);
+    const gridState = await this.gridManager.getGridState(gridId);
+    if (!Array.isArray(jsonRows) || jsonRows.length !== gridState.displayedRowCount) {
+      throw new Error('JSON export did not match the displayed rows');
+    }
+
+    // Test Markdown export produces a table with a header separator
+    const markdownExport = await this.gridManager.exportGridData(gridId, 'markdown');
+    if (!markdownExport.data.split('\n')[1]?.startsWith('| ---')) {
+      throw new Error('Markdown export did not produce a table');
+    }
+
+    // Numeric columns are right-aligned in Markdown
+    const alignedExport = await this.gridManager.exportGridData(gridId, 'markdown', {
+      columnKeys: ['revenue', 'product'],
+    });
+    if (alignedExport.data.split('\n')[1] !== '| ---: | --- |') {
+      throw new Error('Markdown export did not right-align the numeric column');
+    }
+
+    // Test scoped export with an explicit column subset, field headers and a row limit
+    const scopedExport = await this.gridManager.exportGridData(gridId, 'json', {
+      allRows: true,
+      columnKeys: ['revenue', 'product'],
+      headerMode: 'field',
+      limit: 3,
+    });
+    const scopedRows = JSON.parse(scopedExport.data);
+    if (scopedRows.length !== 3 || Object.keys(scopedRows[0]).join(',') !== 'revenue,product') {
+      throw new Error('Scoped export did not respect columnKeys and limit');
+    }
+
+    // Test PDF report export
+    const pdfExport = await this.gridManager.exportGridData(gridId, 'pdf', { title: 'Sales Review' });
+    if (Buffer.from(pdfExport.data, pdfExport.encoding).subarray(0, 4).toString() !== '%PDF') {
+      throw new Error('PDF export did not return a PDF document');
+    }
+
+    // Test writing an export to the export store
+    const storedExport = await this.gridManager.saveExport(gridId, csvExport, 'test-export');
+    const resolvedPath = await this.gridManager.getExportStore().resolve(gridId, storedExport.filename);
+    if (storedExport.filename !== 'test-export.csv' || resolvedPath !== storedExport.path) {
+      throw new Error('Export was not written to the export store');
+    }
+
+    // Exports are deleted together with their grid
+    const scratchGridId = await this.gridManager.createGrid({
+      columnDefs: [{ field: 'name' }],
+      rowData: [{ name: 'scratch' }],
+    });
+    const scratchExport = await this.gridManager.saveExport(
+      scratchGridId,
+      await this.gridManager.exportGridData(scratchGridId, 'csv')
+    );
+    await this.gridManager.destroyGrid(scratchGridId);
+    if (await this.gridManager.getExportStore().resolve(scratchGridId, scratchExport.filename)) {
+      throw new Error('Exports of a destroyed grid were not deleted');
+    }
+
+    return { csvExport, excelExport, jsonExport, markdownExport, scopedExport, pdfExport, storedExport };
   }
 
   /**
@@ -285,6 +358,25 @@ class TestRunner {
     
     // Test size columns to fit
     await this.gridManager.executeGridMethod(gridId, 'sizeColumnsToFit');
+
+    // Methods outside the registry and invalid parameters are rejected
+    const rejections = [
+      { method: 'destroy', params: undefined, code: 'METHOD_NOT_ALLOWED' },
+      { method: 'getRenderedNodes', params: undefined, code: 'METHOD_NOT_ALLOWED' },
+      { method: 'setGridOption', params: ['rowData', []], code: 'INVALID_METHOD_PARAMS' },
+      { method: 'setGridOption', params: ['quickFilterText', 'north'], code: 'INVALID_METHOD_PARAMS' },
+      { method: 'setColumnsVisible', params: ['region', false], code: 'INVALID_METHOD_PARAMS' },
+    ];
+    for (const { method, params, code } of rejections) {
+      try {
+        await this.gridManager.executeGridMethod(gridId, method, params);
+        throw new Error(`Method ${method} should have been rejected`);
+      } catch (error) {
+        if ((error as GridManagerError).code !== code) {
+          throw error;
+        }
+      }
+    }
     
     return { selectedRowsCount: selectedRows.length };
   }
@@ -363,6 +455,858 @@ class TestRunner {
     return;
   }
 
+  /**
+   * Test 13: Grid Screenshot
+   */
+  private async testScreenshot(gridId: string): Promise<any> {
+    const widthsBefore = await this.gridManager.executeGridMethod(gridId, 'getColumnState');
+    const image = await this.gridManager.screenshotGrid(gridId, {
+      rowRange: { start: 0, end: 4 },
+      autoSizeColumns: true,
+    });
+
+    // PNG files start with the 0x89 "PNG" signature
+    const buffer = Buffer.from(image, 'base64');
+    if (buffer.subarray(1, 4).toString() !== 'PNG') {
+      throw new Error('Screenshot did not return a PNG image');
+    }
+
+    // Auto-sizing for the capture must not change the grid's column widths
+    const widthsAfter = await this.gridManager.executeGridMethod(gridId, 'getColumnState');
+    if (JSON.stringify(widthsAfter.map((column: any) => column.width)) !== JSON.stringify(widthsBefore.map((column: any) => column.width))) {
+      throw new Error('Screenshot left the column widths changed');
+    }
+
+    return { size: buffer.length };
+  }
+
+  /**
+   * Test 14: Page Pool Recycling
+   */
+  private async testPagePool(): Promise<any> {
+    const before = this.gridManager.getPagePoolStats();
+
+    const gridId = await this.gridManager.createGrid({
+      columnDefs: [{ field: 'name' }],
+      rowData: [{ name: 'pooled' }],
+    });
+    await this.gridManager.destroyGrid(gridId);
+
+    const after = this.gridManager.getPagePoolStats();
+    if (after.hits + after.misses !== before.hits + before.misses + 1) {
+      throw new Error('Grid creation did not go through the page pool');
+    }
+    if (after.recycled + after.discarded !== before.recycled + before.discarded + 1) {
+      throw new Error('Destroyed grid page was not returned to the page pool');
+    }
+
+    return after;
+  }
+
+  /**
+   * Test 15: Save and Restore Grid
+   */
+  private async testSaveAndRestore(gridId: string): Promise<any> {
+    const before = await this.gridManager.getGridState(gridId);
+    const saved = await this.gridManager.saveGrid(gridId);
+
+    const restoredId = await this.gridManager.restoreGrid(gridId);
+    if (restoredId !== gridId) {
+      throw new Error(`Restored grid has ID ${restoredId}, expected ${gridId}`);
+    }
+
+    const after = await this.gridManager.getGridState(gridId);
+    if (after.displayedRowCount !== before.displayedRowCount) {
+      throw new Error('Restored grid does not show the same rows as the saved grid');
+    }
+    if (JSON.stringify(after.filterState) !== JSON.stringify(before.filterState)) {
+      throw new Error('Restored grid lost its filter model');
+    }
+
+    return saved;
+  }
+
+  /**
+   * Test 16: Resource Limits and Idle Eviction
+   */
+  private async testResourceLimits(): Promise<any> {
+    const limitedManager = new GridManager({
+      headless: true,
+      pagePoolSize: 0,
+      maxGrids: 1,
+      // Long enough that the eviction timer never fires during the test
+      idleTtlMs: 10 * 60 * 1000,
+    });
+
+    try {
+      await limitedManager.initialize();
+      const gridId = await limitedManager.createGrid({
+        columnDefs: [{ field: 'name' }],
+        rowData: [{ name: 'first' }],
+      });
+
+      try {
+        await limitedManager.createGrid({
+          columnDefs: [{ field: 'name' }],
+          rowData: [{ name: 'second' }],
+        });
+        throw new Error('Expected second grid creation to exceed the grid limit');
+      } catch (error) {
+        if (!(error instanceof GridManagerError) || error.code !== 'GRID_LIMIT_EXCEEDED') {
+          throw error;
+        }
+      }
+
+      // Sweep at an explicit time instead of waiting for the grid to go idle
+      if ((await limitedManager.evictIdleGrids()).length !== 0) {
+        throw new Error('Recently used grid was evicted');
+      }
+      const evicted = await limitedManager.evictIdleGrids(Date.now() + 11 * 60 * 1000);
+      if (evicted.length !== 1 || evicted[0] !== gridId || limitedManager.getActiveGrids().includes(gridId) || limitedManager.getResourceUsage().evictedGrids !== 1) {
+        throw new Error('Idle grid was not evicted');
+      }
+
+      // Concurrent creations reserve their slot before waiting for a page
+      const results = await Promise.allSettled(['third', 'fourth'].map(name => limitedManager.createGrid({
+        columnDefs: [{ field: 'name' }],
+        rowData: [{ name }],
+      })));
+      const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (rejected.length !== 1 || !(rejected[0].reason instanceof GridManagerError) || rejected[0].reason.code !== 'GRID_LIMIT_EXCEEDED') {
+        throw new Error('Concurrent grid creations exceeded the grid limit');
+      }
+
+      return limitedManager.getResourceUsage();
+    } finally {
+      await limitedManager.cleanup();
+    }
+  }
+
+  /**
+   * Test 17: Row Transactions
+   */
+  private async testTransactions(): Promise<any> {
+    const gridId = await this.gridManager.createGrid({
+      columnDefs: [{ field: 'id' }, { field: 'name' }, { field: 'amount' }],
+      rowData: [
+        { id: 'a', name: 'Alpha', amount: 10 },
+        { id: 'b', name: 'Beta', amount: 20 },
+        { id: 'c', name: 'Gamma', amount: 30 },
+      ],
+      rowIdField: 'id',
+    });
+
+    try {
+      const result = await this.gridManager.applyTransaction(gridId, {
+        add: [{ id: 'd', name: 'Delta', amount: 40 }],
+        update: [{ id: 'a', name: 'Alpha', amount: 15 }],
+        remove: ['b'],
+      });
+
+      if (result.added !== 1 || result.updated !== 1 || result.removed !== 1 || result.rowCount !== 3) {
+        throw new Error(`Unexpected transaction result: ${JSON.stringify(result)}`);
+      }
+
+      const rowData = this.gridManager.getGridInfo(gridId).config.rowData;
+      if (rowData.map(row => row.id).join(',') !== 'a,c,d' || rowData[0].amount !== 15) {
+        throw new Error('Stored row data is out of sync after the transaction');
+      }
+
+      return result;
+    } finally {
+      await this.gridManager.destroyGrid(gridId);
+    }
+  }
+
+  /**
+   * Test 18: Undo and Redo
+   */
+  private async testUndoRedo(): Promise<any> {
+    const gridId = await this.gridManager.createGrid({
+      columnDefs: [{ field: 'name' }, { field: 'amount' }],
+      rowData: [
+        { name: 'Alpha', amount: 10 },
+        { name: 'Beta', amount: 20 },
+      ],
+    });
+
+    try {
+      await this.gridManager.updateGridData(gridId, [
+        { name: 'Alpha', amount: 10 },
+        { name: 'Beta', amount: 20 },
+        { name: 'Gamma', amount: 30 },
+      ]);
+      await this.gridManager.executeGridMethod(gridId, 'setFilterModel', [
+        { amount: { filterType: 'number', type: 'greaterThan', filter: 15 } },
+      ]);
+
+      const history = this.gridManager.getGridHistory(gridId);
+      if (history.undo.length !== 2 || history.undo[0].changes[0] !== 'filterModel') {
+        throw new Error(`Unexpected history: ${JSON.stringify(history.undo)}`);
+      }
+
+      await this.gridManager.undoGridChange(gridId);
+      let state = await this.gridManager.getGridState(gridId);
+      if (Object.keys(state.filterState).length !== 0 || state.displayedRowCount !== 3) {
+        throw new Error('Undo did not clear the filter');
+      }
+
+      await this.gridManager.undoGridChange(gridId);
+      if (this.gridManager.getGridInfo(gridId).config.rowData.length !== 2) {
+        throw new Error('Undo did not restore the previous data');
+      }
+
+      await this.gridManager.redoGridChange(gridId);
+      const result = await this.gridManager.redoGridChange(gridId);
+      state = await this.gridManager.getGridState(gridId);
+      if (state.displayedRowCount !== 2 || result.history.canRedo) {
+        throw new Error('Redo did not re-apply the data and filter');
+      }
+
+      return { displayedRows: state.displayedRowCount, undoable: result.history.undo.length };
+    } finally {
+      await this.gridManager.destroyGrid(gridId);
+    }
+  }
+
+  /**
+   * Test 19: Grid Versions and Diffs
+   */
+  private async testVersionDiff(): Promise<any> {
+    const gridId = await this.gridManager.createGrid({
+      columnDefs: [{ field: 'id' }, { field: 'name' }, { field: 'amount' }],
+      rowData: [
+        { id: 1, name: 'Alpha', amount: 10 },
+        { id: 2, name: 'Beta', amount: 20 },
+      ],
+      rowIdField: 'id',
+    });
+
+    try {
+      await this.gridManager.tagGridVersion(gridId, 'before cleanup');
+      await this.gridManager.applyTransaction(gridId, {
+        add: [{ id: 3, name: 'Gamma', amount: 30 }],
+        update: [{ id: 1, name: 'Alpha', amount: 12 }],
+        remove: [2],
+      });
+      await this.gridManager.executeGridMethod(gridId, 'setGridOption', [
+        'columnDefs',
+        [{ field: 'id' }, { field: 'name', headerName: 'Name' }, { field: 'amount' }],
+      ]);
+
+      const diff = this.gridManager.diffGridVersions(gridId, 'before cleanup', 'current');
+      const { summary } = diff;
+      if (summary.addedRows !== 1 || summary.removedRows !== 1 || summary.changedRows !== 1 || summary.changedColumns !== 1) {
+        throw new Error(`Unexpected diff summary: ${JSON.stringify(summary)}`);
+      }
+
+      const amountChange = diff.rows.changed[0].changes.amount;
+      if (amountChange.before !== 10 || amountChange.after !== 12) {
+        throw new Error(`Unexpected field change: ${JSON.stringify(amountChange)}`);
+      }
+
+      return summary;
+    } finally {
+      await this.gridManager.destroyGrid(gridId);
+    }
+  }
+
+  /**
+   * Test 20: Grid Names
+   */
+  private async testGridNames(): Promise<any> {
+    const gridId = await this.gridManager.createGrid({
+      columnDefs: [{ field: 'name' }, { field: 'amount' }],
+      rowData: [{ name: 'Alpha', amount: 10 }],
+    }, { name: 'sales-q3' });
+    const otherGridId = await this.gridManager.createGrid({
+      columnDefs: [{ field: 'name' }],
+      rowData: [{ name: 'Beta' }],
+    }, { name: 'scratch' });
+
+    try {
+      if (this.gridManager.resolveGridId('Sales-Q3') !== gridId) {
+        throw new Error('Grid name did not resolve to the grid ID');
+      }
+
+      await this.gridManager.updateGridData('sales-q3', [{ name: 'Alpha', amount: 12 }]);
+      if (this.gridManager.getGridInfo(gridId).config.rowData[0].amount !== 12) {
+        throw new Error('Update by name did not reach the grid');
+      }
+
+      const renamed = await this.gridManager.renameGrid('sales-q3', 'sales-q4');
+      if (renamed.previousName !== 'sales-q3' || this.gridManager.getGridInfo('sales-q4').id !== gridId) {
+        throw new Error(`Unexpected rename result: ${JSON.stringify(renamed)}`);
+      }
+
+      try {
+        await this.gridManager.renameGrid(otherGridId, 'SALES-Q4');
+        throw new Error('Duplicate grid name should have been rejected');
+      } catch (error) {
+        if ((error as GridManagerError).code !== 'GRID_NAME_TAKEN') {
+          throw error;
+        }
+      }
+
+      return renamed;
+    } finally {
+      await this.gridManager.destroyGrid(gridId);
+      await this.gridManager.destroyGrid(otherGridId);
+    }
+  }
+
+  /**
+   * Test 21: Clone Grid
+   */
+  private async testCloneGrid(): Promise<any> {
+    const gridId = await this.gridManager.createGrid({
+      columnDefs: [{ field: 'name' }, { field: 'amount' }],
+      rowData: [
+        { name: 'Alpha', amount: 10 },
+        { name: 'Beta', amount: 30 },
+        { name: 'Gamma', amount: 20 },
+      ],
+    });
+    const cloneIds: string[] = [];
+
+    try {
+      await this.gridManager.executeGridMethod(gridId, 'setFilterModel', [
+        { amount: { filterType: 'number', type: 'greaterThan', filter: 15 } },
+      ]);
+      await this.gridManager.executeGridMethod(gridId, 'applyColumnState', [
+        { state: [{ colId: 'amount', sort: 'desc' }] },
+      ]);
+
+      const displayed = await this.gridManager.cloneGrid(gridId, { mode: 'displayed' });
+      cloneIds.push(displayed.gridId);
+      const displayedRows = this.gridManager.getGridInfo(displayed.gridId).config.rowData;
+      if (displayedRows.map(row => row.name).join(',') !== 'Beta,Gamma') {
+        throw new Error(`Unexpected displayed rows: ${JSON.stringify(displayedRows)}`);
+      }
+
+      const full = await this.gridManager.cloneGrid(gridId, { mode: 'full' });
+      cloneIds.push(full.gridId);
+      const fullState = await this.gridManager.getGridState(full.gridId);
+      if (full.rowCount !== 3 || fullState.displayedRowCount !== 2) {
+        throw new Error('Full clone did not keep all rows and the filter');
+      }
+
+      const parent = this.gridManager.getGridInfo(gridId);
+      const child = this.gridManager.getGridInfo(displayed.gridId);
+      if (parent.metadata.clones.length !== 2 || child.metadata.clonedFrom.gridId !== gridId) {
+        throw new Error('Parent and clone are not linked in their metadata');
+      }
+
+      return { displayed: displayed.rowCount, full: full.rowCount };
+    } finally {
+      for (const cloneId of cloneIds) {
+        await this.gridManager.destroyGrid(cloneId);
+      }
+      await this.gridManager.destroyGrid(gridId);
+    }
+  }
+
+  /**
+   * Test 22: Saved Grid Views
+   */
+  private async testGridViews(): Promise<any> {
+    const gridId = await this.gridManager.createGrid({
+      columnDefs: [{ field: 'name' }, { field: 'amount' }],
+      rowData: [
+        { name: 'Alpha', amount: 10 },
+        { name: 'Beta', amount: 30 },
+        { name: 'Gamma', amount: 20 },
+      ],
+    });
+
+    try {
+      await this.gridManager.executeGridMethod(gridId, 'setFilterModel', [
+        { amount: { filterType: 'number', type: 'greaterThan', filter: 15 } },
+      ]);
+      await this.gridManager.executeGridMethod(gridId, 'applyColumnState', [
+        { state: [{ colId: 'amount', sort: 'desc' }] },
+      ]);
+      const saved = await this.gridManager.saveGridView(gridId, 'top amounts');
+      if (saved.sort.join(',') !== 'amount desc' || saved.filteredColumns.join(',') !== 'amount') {
+        throw new Error(`Unexpected view: ${JSON.stringify(saved)}`);
+      }
+
+      await this.gridManager.executeGridMethod(gridId, 'setFilterModel', [null]);
+      await this.gridManager.executeGridMethod(gridId, 'resetColumnState');
+
+      const applied = await this.gridManager.applyGridView(gridId, 'top amounts');
+      const state = await this.gridManager.getGridState(gridId);
+      const amountColumn = state.columnState.find((column: any) => column.colId === 'amount');
+      if (applied.displayedRowCount !== 2 || amountColumn?.sort !== 'desc') {
+        throw new Error('Applying the view did not restore the filter and sort');
+      }
+
+      await this.gridManager.deleteGridView(gridId, 'top amounts');
+      if (this.gridManager.listGridViews(gridId).length !== 0) {
+        throw new Error('View was not deleted');
+      }
+
+      return applied;
+    } finally {
+      await this.gridManager.destroyGrid(gridId);
+    }
+  }
+
+  /**
+   * Test 23: Query Grid
+   */
+  private async testQueryGrid(): Promise<any> {
+    const gridId = await this.gridManager.createGrid({
+      columnDefs: [{ field: 'name' }, { field: 'region' }, { field: 'amount' }],
+      rowData: [
+        { name: 'Alpha', region: 'North', amount: 10 },
+        { name: 'Beta', region: 'South', amount: 30 },
+        { name: 'Gamma', region: 'North', amount: 20 },
+        { name: 'Delta', region: 'East', amount: 40 },
+      ],
+    });
+
+    try {
+      const result = await this.gridManager.queryGrid(
+        gridId,
+        "SELECT name, amount WHERE region = 'north' AND amount BETWEEN 5 AND 25 ORDER BY amount DESC LIMIT 10"
+      );
+      if (result.rows.map(row => row.name).join(',') !== 'Gamma,Alpha' || !result.grid.applied) {
+        throw new Error(`Unexpected query result: ${JSON.stringify(result)}`);
+      }
+
+      const state = await this.gridManager.getGridState(gridId);
+      const regionColumn = state.columnState.find((column: any) => column.colId === 'region');
+      if (state.displayedRowCount !== 2 || !regionColumn?.hide) {
+        throw new Error('Query was not applied to the grid');
+      }
+
+      // OR across columns is answered without changing the grid
+      const unapplied = await this.gridManager.queryGrid(gridId, "SELECT * WHERE region = 'East' OR amount < 15");
+      if (unapplied.matchedRows !== 2 || unapplied.grid.applied) {
+        throw new Error(`Unexpected result for an untranslatable query: ${JSON.stringify(unapplied.grid)}`);
+      }
+
+      try {
+        await this.gridManager.queryGrid(gridId, 'SELECT price WHERE amount > 1');
+        throw new Error('Query on an unknown column should have been rejected');
+      } catch (error) {
+        if ((error as GridManagerError).code !== 'INVALID_QUERY') {
+          throw error;
+        }
+      }
+
+      return { matchedRows: result.matchedRows, filterModel: result.grid.filterModel };
+    } finally {
+      await this.gridManager.destroyGrid(gridId);
+    }
+  }
+
+  /**
+   * Test 24: Typed Filters
+   */
+  private async testTypedFilters(): Promise<any> {
+    const rowData = [
+      { name: 'Alpha', region: 'North', amount: 10, date: '2024-01-15', sku: 'SKU 42' },
+      { name: 'Beta', region: 'South', amount: 30, date: '2024-02-20', sku: 'SKU 7' },
+      { name: 'Gamma', region: 'North', amount: 20, date: '2024-03-05', sku: 'A-100' },
+      { name: 'Delta', region: 'North', amount: 40, date: '2024-04-10', sku: '12345' },
+    ];
+    const columnDefs = [{ field: 'name' }, { field: 'region' }, { field: 'amount' }, { field: 'date' }, { field: 'sku' }];
+    const gridId = await this.gridManager.createGrid({ columnDefs, rowData });
+
+    try {
+      const filterModel = compileFilter({
+        and: [
+          { field: 'region', op: 'eq', value: 'North' },
+          { or: [{ field: 'amount', op: 'lt', value: 15 }, { field: 'amount', op: 'gt', value: 35 }] },
+          { field: 'date', op: 'gt', value: '2024-01-01' },
+        ],
+      }, columnDefs, rowData);
+
+      await this.gridManager.executeGridMethod(gridId, 'setFilterModel', [filterModel]);
+      const state = await this.gridManager.getGridState(gridId);
+      if (state.displayedRowCount !== 2) {
+        throw new Error(`Expected 2 rows after filtering, got ${state.displayedRowCount}: ${JSON.stringify(filterModel)}`);
+      }
+
+      // Text that Date.parse happens to accept is still filtered as text
+      const skuFilter = compileFilter({ field: 'sku', op: 'contains', value: '42' }, columnDefs, rowData);
+      if (skuFilter.sku?.filterType !== 'text') {
+        throw new Error(`Expected a text filter on 'sku', got ${JSON.stringify(skuFilter)}`);
+      }
+
+      // Like AG Grid, only the first row decides the type, so an empty first value means text
+      const scoreFilter = compileFilter({ field: 'score', op: 'contains', value: '1' }, [{ field: 'score' }], [{ score: null }, { score: 12 }]);
+      if (scoreFilter.score?.filterType !== 'text') {
+        throw new Error(`Expected a text filter on 'score', got ${JSON.stringify(scoreFilter)}`);
+      }
+
+      try {
+        compileFilter({ field: 'regoin', op: 'gt', value: 'North' }, columnDefs, rowData);
+        throw new Error('Filter on an unknown column should have been rejected');
+      } catch (error) {
+        if ((error as GridManagerError).code !== 'INVALID_FILTER') {
+          throw error;
+        }
+      }
+
+      return filterModel;
+    } finally {
+      await this.gridManager.destroyGrid(gridId);
+    }
+  }
+
+  /**
+   * Test 25: Aggregate Grid
+   */
+  private async testAggregateGrid(): Promise<any> {
+    const gridId = await this.gridManager.createGrid({
+      columnDefs: [{ field: 'region' }, { field: 'product' }, { field: 'revenue' }],
+      rowData: [
+        { region: 'North', product: 'A', revenue: 100 },
+        { region: 'South', product: 'A', revenue: 50 },
+        { region: 'North', product: 'B', revenue: 300 },
+        { region: 'North', product: 'A', revenue: 200 },
+        { region: 'South', product: 'B', revenue: 5 },
+      ],
+    });
+    let createdGridId: string | undefined;
+
+    try {
+      // Only rows passing the filter are aggregated
+      await this.gridManager.executeGridMethod(gridId, 'setFilterModel', [
+        { revenue: { filterType: 'number', type: 'greaterThan', filter: 10 } },
+      ]);
+
+      const result = await this.gridManager.aggregateGrid(gridId, {
+        groupBy: ['region'],
+        aggregations: [
+          { fn: 'sum', field: 'revenue' },
+          { fn: 'median', field: 'revenue' },
+          { fn: 'countDistinct', field: 'product', as: 'products' },
+          { fn: 'count' },
+        ],
+        createGrid: true,
+      });
+      createdGridId = result.createdGridId;
+
+      const north = result.rows[0];
+      if (result.sourceRowCount !== 4 || north.region !== 'North' || north.sum_revenue !== 600 ||
+          north.median_revenue !== 200 || north.products !== 2 || result.rows[1].count !== 1) {
+        throw new Error(`Unexpected aggregation: ${JSON.stringify(result.rows)}`);
+      }
+
+      if (!createdGridId || this.gridManager.getGridInfo(createdGridId).config.rowData.length !== 2) {
+        throw new Error('Aggregation grid was not created');
+      }
+
+      // Summing a text column is an error rather than 0
+      try {
+        await this.gridManager.aggregateGrid(gridId, { aggregations: [{ fn: 'sum', field: 'product' }] });
+        throw new Error('Sum of a text column should have been rejected');
+      } catch (error) {
+        if ((error as GridManagerError).code !== 'INVALID_AGGREGATION') {
+          throw error;
+        }
+      }
+
+      return result.rows;
+    } finally {
+      if (createdGridId) {
+        await this.gridManager.destroyGrid(createdGridId);
+      }
+      await this.gridManager.destroyGrid(gridId);
+    }
+  }
+
+  /**
+   * Test 26: Pivot Grid
+   */
+  private async testPivotGrid(): Promise<any> {
+    const gridId = await this.gridManager.createGrid({
+      columnDefs: [{ field: 'region' }, { field: 'quarter' }, { field: 'revenue', headerName: 'Revenue' }],
+      rowData: [
+        { region: 'North', quarter: 'Q1', revenue: 100 },
+        { region: 'North', quarter: 'Q2', revenue: 200 },
+        { region: 'North', quarter: 'Q1', revenue: 50 },
+        { region: 'South', quarter: 'Q2', revenue: 80 },
+      ],
+    });
+    let pivotId: string | undefined;
+
+    try {
+      const pivot = await this.gridManager.pivotGrid(gridId, {
+        rowKeys: ['region'],
+        pivotField: 'quarter',
+        valueField: 'revenue',
+        fn: 'sum',
+      });
+      pivotId = pivot.gridId;
+
+      const [north, south] = pivot.rows;
+      if (pivot.columns.join() !== 'region,quarter_Q1,quarter_Q2,total' || north.quarter_Q1 !== 150 ||
+          north.total !== 350 || south.quarter_Q1 !== null || pivot.totals.total !== 430) {
+        throw new Error(`Unexpected pivot: ${JSON.stringify(pivot)}`);
+      }
+
+      // Pivot value columns are shown under one column group
+      const columnDefs = await this.gridManager.executeGridMethod(pivotId, 'getColumnDefs');
+      const group = columnDefs.find((column: any) => column.children);
+      if (group?.headerName !== 'Sum of Revenue by quarter' || group.children.length !== 2) {
+        throw new Error(`Pivot columns were not grouped: ${JSON.stringify(columnDefs)}`);
+      }
+
+      const pivotGrid = this.gridManager.getGridInfo(pivotId);
+      const source = this.gridManager.getGridInfo(gridId);
+      if (pivotGrid.metadata.pivotedFrom?.gridId !== gridId || !source.metadata.pivots?.includes(pivotId)) {
+        throw new Error('Pivot grid is not linked to its source');
+      }
+
+      return pivot.rows;
+    } finally {
+      if (pivotId) {
+        await this.gridManager.destroyGrid(pivotId);
+      }
+      await this.gridManager.destroyGrid(gridId);
+    }
+  }
+
+  /**
+   * Test 27: Computed Columns
+   */
+  private async testComputedColumns(): Promise<any> {
+    const gridId = await this.gridManager.createGrid({
+      columnDefs: [{ field: 'id' }, { field: 'revenue' }, { field: 'cost' }, { field: 'quantity' }],
+      rowData: [
+        { id: 1, revenue: 100, cost: 60, quantity: 12 },
+        { id: 2, revenue: 0, cost: 10, quantity: 3 },
+      ],
+      rowIdField: 'id',
+    });
+
+    try {
+      await this.gridManager.addComputedColumn(gridId, { field: 'profit', expression: 'revenue - cost' });
+      const margin = await this.gridManager.addComputedColumn(gridId, {
+        field: 'margin',
+        expression: 'round(profit / revenue * 100, 1)',
+        headerName: 'Margin %',
+      });
+      await this.gridManager.addComputedColumn(gridId, {
+        field: 'size',
+        expression: 'if(quantity > 10, "bulk", "single")',
+      });
+
+      // Division by zero leaves the value empty
+      if (margin.sample[0] !== 40 || margin.sample[1] !== null || margin.inputs.join() !== 'profit,revenue') {
+        throw new Error(`Unexpected computed values: ${JSON.stringify(margin)}`);
+      }
+
+      // Computed columns follow data changes
+      await this.gridManager.updateGridData(gridId, [{ id: 1, revenue: 200, cost: 50, quantity: 5 }]);
+      await this.gridManager.applyTransaction(gridId, { add: [{ id: 3, revenue: 10, cost: 5, quantity: 20 }] });
+      const [first, added] = this.gridManager.getGridInfo(gridId).config.rowData;
+      if (first.profit !== 150 || first.margin !== 75 || first.size !== 'single' || added.size !== 'bulk') {
+        throw new Error(`Computed columns were not recomputed: ${JSON.stringify([first, added])}`);
+      }
+      const columnDefs = await this.gridManager.executeGridMethod(gridId, 'getColumnDefs');
+      if (columnDefs.length !== 7) {
+        throw new Error(`Expected 7 columns in the grid, found ${columnDefs.length}`);
+      }
+
+      try {
+        await this.gridManager.addComputedColumn(gridId, { field: 'bad', expression: 'revenue + missing' });
+        throw new Error('Unknown column in expression should have failed');
+      } catch (error) {
+        if (!(error instanceof GridManagerError) || error.code !== 'INVALID_EXPRESSION') {
+          throw error;
+        }
+      }
+
+      return this.gridManager.getGridInfo(gridId).config.computedColumns;
+    } finally {
+      await this.gridManager.destroyGrid(gridId);
+    }
+  }
+
+  /**
+   * Test 28: Conditional Formatting
+   */
+  private async testConditionalFormatting(): Promise<any> {
+    const gridId = await this.gridManager.createGrid({
+      columnDefs: [{ field: 'invoice' }, { field: 'profit' }, { field: 'status' }, { field: 'customer.tier' }],
+      rowData: [
+        { invoice: 'A-1', profit: 120, status: 'Paid', customer: { tier: 'Gold' } },
+        { invoice: 'A-2', profit: -40, status: 'Overdue', customer: { tier: 'Silver' } },
+        { invoice: 'A-3', profit: -5, status: 'Open', customer: { tier: 'Silver' } },
+      ],
+    });
+
+    try {
+      const result = await this.gridManager.setConditionalFormatting(gridId, [
+        { condition: { field: 'profit', op: 'lt', value: 0 }, preset: 'negative' },
+        { condition: { field: 'status', op: 'eq', value: 'overdue' }, scope: 'row', style: { backgroundColor: '#fff3e0', fontWeight: 'bold' } },
+        // Dotted fields are read as paths into nested objects, as the grid reads them
+        { condition: { field: 'customer.tier', op: 'eq', value: 'gold' }, preset: 'highlight' },
+      ]);
+
+      if (result.matchedRows.join() !== '2,1,1') {
+        throw new Error(`Unexpected matched rows: ${JSON.stringify(result.matchedRows)}`);
+      }
+      if (this.gridManager.getGridInfo(gridId).config.formattingRules?.length !== 3) {
+        throw new Error('Formatting rules were not stored with the grid');
+      }
+
+      // Conditions are checked against the column types and styles against a safe subset
+      for (const rule of [
+        { condition: { field: 'profit', op: 'contains' as const, value: 'x' }, preset: 'negative' as const },
+        { condition: { field: 'status', op: 'eq' as const, value: 'Paid' }, style: { color: 'red; display: none' } },
+      ]) {
+        try {
+          await this.gridManager.setConditionalFormatting(gridId, [rule]);
+          throw new Error(`Invalid rule was accepted: ${JSON.stringify(rule)}`);
+        } catch (error) {
+          if (!(error instanceof GridManagerError) || error.code !== 'INVALID_FORMATTING') {
+            throw error;
+          }
+        }
+      }
+
+      return result;
+    } finally {
+      await this.gridManager.destroyGrid(gridId);
+    }
+  }
+
+  /**
+   * Test 29: Inferred Column Definitions
+   */
+  private async testInferredColumns(): Promise<any> {
+    const rowData = [
+      { orderId: 'A-1', amount: 250, orderDate: '2024-01-15', paid: true },
+      { orderId: 'A-2', amount: 80, orderDate: '2024-03-02', paid: false, customer_name: 'Acme' },
+      { orderId: 'A-3', amount: 1200, orderDate: '2024-02-20', paid: true },
+    ];
+    const columnDefs = inferColumnDefs(rowData);
+
+    const byField = Object.fromEntries(columnDefs.map(column => [column.field, column]));
+    if (columnDefs.length !== 5 || byField.customer_name?.headerName !== 'Customer Name' ||
+        byField.orderId.headerName !== 'Order ID' || byField.amount.filter !== 'agNumberColumnFilter' ||
+        byField.orderDate.filter !== 'agDateColumnFilter' || byField.paid.cellDataType !== 'boolean') {
+      throw new Error(`Unexpected inferred columns: ${JSON.stringify(columnDefs)}`);
+    }
+
+    const gridId = await this.gridManager.createGrid({ columnDefs, rowData });
+
+    try {
+      // The inferred filters work on the values
+      await this.gridManager.executeGridMethod(gridId, 'setFilterModel', [
+        compileFilter({ and: [
+          { field: 'amount', op: 'gt', value: 100 },
+          { field: 'orderDate', op: 'gt', value: '2024-02-01' },
+        ] }, columnDefs, rowData),
+      ]);
+      const displayedRows = await this.gridManager.executeGridMethod(gridId, 'getDisplayedRowCount');
+      if (displayedRows !== 1) {
+        throw new Error(`Expected 1 row after filtering inferred columns, found ${displayedRows}`);
+      }
+
+      return columnDefs;
+    } finally {
+      await this.gridManager.destroyGrid(gridId);
+    }
+  }
+
+  /**
+   * Test 30: Offline AG Grid Assets
+   */
+  private async testOfflineAssets(): Promise<any> {
+    const offlineManager = new GridManager({ headless: true, pagePoolSize: 0 });
+
+    try {
+      await offlineManager.initialize();
+      const gridId = await offlineManager.createGrid({
+        columnDefs: [{ field: 'name' }],
+        rowData: [{ name: 'offline' }, { name: 'grid' }],
+      });
+
+      // The grid page loads AG Grid's script and theme from the CDN; both must be answered locally
+      const stats = offlineManager.getAssetStats();
+      if (stats.served < 2 || stats.missing.length > 0) {
+        throw new Error(`AG Grid assets were not served from the local package: ${JSON.stringify(stats)}`);
+      }
+
+      const displayedRows = await offlineManager.executeGridMethod(gridId, 'getDisplayedRowCount');
+      if (displayedRows !== 2) {
+        throw new Error(`Expected the offline grid to show 2 rows, found ${displayedRows}`);
+      }
+
+      return stats;
+    } finally {
+      await offlineManager.cleanup();
+    }
+  }
+
+  /**
+   * Test 31: Crash Recovery
+   */
+  private async testCrashRecovery(): Promise<any> {
+    const recoveringManager = new GridManager({ headless: true, pagePoolSize: 1 });
+    // The manager cannot crash itself; reach into it to simulate failures
+    const internals = recoveringManager as unknown as { browser: Browser; grids: Map<string, { page: Page }> };
+
+    const waitFor = async (description: string, check: () => Promise<boolean>): Promise<void> => {
+      const deadline = Date.now() + 12000;
+      while (Date.now() < deadline) {
+        try {
+          if (await check()) {
+            return;
+          }
+        } catch {
+          // The grid is unavailable while it is being rebuilt
+        }
+        await new Promise(resolve => setTimeout(resolve, 250));
+      }
+      throw new Error(`Timed out waiting for ${description}`);
+    };
+
+    try {
+      await recoveringManager.initialize();
+      const gridId = await recoveringManager.createGrid({
+        columnDefs: [{ field: 'name' }, { field: 'amount' }],
+        rowData: [
+          { name: 'Alpha', amount: 10 },
+          { name: 'Beta', amount: 20 },
+          { name: 'Gamma', amount: 30 },
+        ],
+      });
+      await recoveringManager.executeGridMethod(gridId, 'setFilterModel', [
+        { amount: { filterType: 'number', type: 'greaterThan', filter: 15 } },
+      ]);
+      const isRestored = async () =>
+        await recoveringManager.executeGridMethod(gridId, 'getDisplayedRowCount') === 2 &&
+        Object.keys((await recoveringManager.getGridState(gridId)).filterState).length === 1;
+
+      // A crashed page is replaced and the grid rebuilt with its data and filter
+      const crashedPage = internals.grids.get(gridId)!.page;
+      crashedPage.goto('chrome://crash').catch(() => undefined);
+      await waitFor('the crashed page to be rebuilt', async () =>
+        internals.grids.get(gridId)!.page !== crashedPage && await isRestored()
+      );
+
+      // A disconnected browser is relaunched and every grid rebuilt
+      const closedBrowser = internals.browser;
+      await closedBrowser.close();
+      await waitFor('the browser to be relaunched', async () =>
+        internals.browser !== closedBrowser && internals.browser?.connected && await isRestored()
+      );
+
+      return recoveringManager.getGridInfo(gridId).lastUpdated;
+    } finally {
+      await recoveringManager.cleanup();
+    }
+  }
+
   /**
    * Run all tests in sequence
    */
@@ -401,9 +1345,62 @@ class TestRunner {
         await this.runTest('Apply Sorting', () => this.testApplySorting(salesGridId));
         await this.runTest('Export Data', () => this.testExportData(salesGridId));
         await this.runTest('Execute Grid Methods', () => this.testGridMethods(salesGridId));
+        await this.runTest('Grid Screenshot', () => this.testScreenshot(salesGridId));
         await this.runTest('Get Grid Statistics', () => this.testGetGridStats(salesGridId));
+        await this.runTest('Save and Restore Grid', () => this.testSaveAndRestore(salesGridId));
       }
 
+      // Test page pool
+      await this.runTest('Page Pool Recycling', () => this.testPagePool());
+
+      // Test row transactions
+      await this.runTest('Row Transactions', () => this.testTransactions());
+
+      // Test undo and redo
+      await this.runTest('Undo and Redo', () => this.testUndoRedo());
+
+      // Test grid versions and diffs
+      await this.runTest('Grid Versions and Diffs', () => this.testVersionDiff());
+
+      // Test grid names
+      await this.runTest('Grid Names', () => this.testGridNames());
+
+      // Test cloning grids
+      await this.runTest('Clone Grid', () => this.testCloneGrid());
+
+      // Test saved views
+      await this.runTest('Saved Grid Views', () => this.testGridViews());
+
+      // Test SQL-like queries
+      await this.runTest('Query Grid', () => this.testQueryGrid());
+
+      // Test typed filters
+      await this.runTest('Typed Filters', () => this.testTypedFilters());
+
+      // Test aggregation
+      await this.runTest('Aggregate Grid', () => this.testAggregateGrid());
+
+      // Test pivot tables
+      await this.runTest('Pivot Grid', () => this.testPivotGrid());
+
+      // Test computed columns
+      await this.runTest('Computed Columns', () => this.testComputedColumns());
+
+      // Test conditional formatting
+      await this.runTest('Conditional Formatting', () => this.testConditionalFormatting());
+
+      // Test inferred column definitions
+      await this.runTest('Inferred Column Definitions', () => this.testInferredColumns());
+
+      // Test recovery from page crashes and browser disconnects
+      await this.runTest('Crash Recovery', () => this.testCrashRecovery());
+
+      // Test offline asset loading
+      await this.runTest('Offline AG Grid Assets', () => this.testOfflineAssets());
+
+      // Test resource limits
+      await this.runTest('Resource Limits and Idle Eviction', () => this.testResourceLimits());
+
       // Test multiple grids
       await this.runTest('Multiple Grid Management', () => this.testMultipleGrids());
 
@@ -2,6 +2,13 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { GridManager, GridManagerError, type GridConfig, type ExportFormat } from '../grid-manager.js';
 import { getAllDemoScenarios, getDemoScenarioById, type DemoScenario } from '../examples/demo-scenarios.js';
+import { GRID_METHODS } from '../grid-methods.js';
+import { FILTER_OPERATORS, compileFilter, findUnknownFilterFields, type FilterNode } from '../grid-filters.js';
+import { AGGREGATE_FUNCTIONS } from '../grid-aggregation.js';
+import { EXPRESSION_FUNCTIONS } from '../grid-expressions.js';
+import { FORMATTING_PRESETS } from '../grid-formatting.js';
+import { inferColumnDefs } from '../grid-columns.js';
+import { buildDiffResourceUri } from '../resources/data-resources.js';
 import type WebServer from '../web-server/server.js';
 
 // Zod schemas for tool parameter validation
@@ -18,42 +25,210 @@ const ColumnDefSchema = z.object({
 }).describe('Column definition for AG Grid');
 
 const CreateGridSchema = z.object({
-  columnDefs: z.array(ColumnDefSchema).min(1).describe('Array of column definitions defining the grid structure'),
+  columnDefs: z.array(ColumnDefSchema).min(1).optional().describe(
+    'Array of column definitions defining the grid structure. Omit to infer them from rowData: one column per key, ' +
+    'with readable headers and number, date, boolean or text types and filters'
+  ),
   rowData: z.array(z.record(z.any())).describe('Array of data objects to populate the grid'),
   gridOptions: z.record(z.any()).optional().describe('Additional AG Grid options (optional)'),
+  rowIdField: z.string().optional().describe('Field holding a unique, stable ID for each row. Required to update or remove individual rows with apply_grid_transaction'),
+  name: z.string().optional().describe('Optional unique, human-friendly grid name (e.g. "q3-sales") that can be used instead of the grid ID'),
 }).describe('Configuration for creating a new AG Grid');
 
 const UpdateGridDataSchema = z.object({
-  gridId: z.string().describe('Unique identifier of the grid to update'),
+  gridId: z.string().describe('ID or name of the grid to update'),
   rowData: z.array(z.record(z.any())).describe('New array of data objects to replace current grid data'),
 }).describe('Parameters for updating grid data');
 
+const ApplyTransactionSchema = z.object({
+  gridId: z.string().describe('ID or name of the grid to change'),
+  add: z.array(z.record(z.any())).optional().describe('Rows to add'),
+  addIndex: z.number().int().min(0).optional().describe('Index to insert added rows at (defaults to the end)'),
+  update: z.array(z.record(z.any())).optional().describe('Rows to replace, matched by the grid\'s rowIdField'),
+  remove: z.array(z.union([z.record(z.any()), z.string(), z.number()])).optional().describe('Rows or row ID values to remove, matched by the grid\'s rowIdField'),
+}).describe('Parameters for applying a row-level transaction');
+
+const FilterConditionSchema = z.object({
+  field: z.string().describe('Column field'),
+  op: z.enum(FILTER_OPERATORS).describe(
+    'eq, ne, lt, lte, gt, gte and between (exclusive bounds) for numbers; eq, ne, lt, gt and between for dates; ' +
+    'eq, ne, contains, notContains, startsWith and endsWith for text; blank and notBlank for numbers, dates and text; eq only for booleans'
+  ),
+  value: z.any().optional().describe('Value to compare with: a number, string, boolean or date as YYYY-MM-DD'),
+  valueTo: z.any().optional().describe('Upper bound for between'),
+});
+
+const FilterNodeSchema: z.ZodType<FilterNode> = z.lazy(() => z.union([
+  FilterConditionSchema,
+  z.object({ and: z.array(FilterNodeSchema) }),
+  z.object({ or: z.array(FilterNodeSchema) }),
+]));
+
 const ApplyFilterSchema = z.object({
-  gridId: z.string().describe('Unique identifier of the grid to filter'),
-  filterModel: z.record(z.any()).describe('AG Grid filter model object defining filters to apply'),
+  gridId: z.string().describe('ID or name of the grid to filter'),
+  filter: FilterNodeSchema.optional().describe(
+    'Filter as a condition {field, op, value} or an {and: [...]} / {or: [...]} group, checked against the columns and their types. ' +
+    'Conditions on different columns combine with and; or only combines conditions on one column'
+  ),
+  filterModel: z.record(z.any()).optional().describe('Raw AG Grid filter model, as an alternative to filter; an empty object clears all filters'),
 }).describe('Parameters for applying filters to a grid');
 
 const ExportGridSchema = z.object({
-  gridId: z.string().describe('Unique identifier of the grid to export'),
-  format: z.enum(['csv', 'excel']).describe('Export format - csv for CSV files, excel for Excel files'),
-  filename: z.string().optional().describe('Optional custom filename (without extension)'),
+  gridId: z.string().describe('ID or name of the grid to export'),
+  format: z.enum(['csv', 'excel', 'json', 'ndjson', 'markdown', 'html', 'pdf']).describe('Export format - csv, excel (.xlsx workbook), json (array of objects keyed by field), ndjson, markdown (GitHub-flavoured table), html (standalone table) or pdf (paginated report)'),
+  filename: z.string().optional().describe('Optional custom filename (without extension) for the written export file'),
+  onlySelected: z.boolean().optional().describe('Export only the selected rows'),
+  allRows: z.boolean().optional().describe('Export all rows, ignoring the current filter'),
+  columnKeys: z.array(z.string()).min(1).optional().describe('Fields of the columns to export, in the order they should appear (defaults to the displayed columns)'),
+  headerMode: z.enum(['headerName', 'field']).optional().describe('Use column header names (default) or field names in the header row'),
+  limit: z.number().int().positive().optional().describe('Maximum number of rows to export'),
+  title: z.string().optional().describe('Report title (pdf only, defaults to the grid ID)'),
+  subtitle: z.string().optional().describe('Report subtitle (pdf only)'),
 }).describe('Parameters for exporting grid data');
 
 const GetGridStatsSchema = z.object({
-  gridId: z.string().describe('Unique identifier of the grid to get statistics for'),
+  gridId: z.string().describe('ID or name of the grid to get statistics for'),
 }).describe('Parameters for retrieving grid statistics');
 
 const ExecuteGridMethodSchema = z.object({
-  gridId: z.string().describe('Unique identifier of the grid to execute method on'),
-  method: z.string().describe('Name of the AG Grid API method to execute (e.g., "selectAll", "clearSelection", "sizeColumnsToFit")'),
+  gridId: z.string().describe('ID or name of the grid to execute method on'),
+  method: z.string().describe(`Name of the AG Grid API method to execute. Allowed: ${Object.keys(GRID_METHODS).join(', ')}`),
   params: z.array(z.any()).optional().describe('Optional array of parameters to pass to the method'),
 }).describe('Parameters for executing AG Grid API methods');
 
 const LoadDemoScenarioSchema = z.object({
   scenarioId: z.string().describe('ID of the demo scenario to load (e.g., "sales-dashboard", "employee-analytics", "financial-analysis", "ecommerce-performance", "business-intelligence")'),
   applyFilters: z.boolean().optional().default(true).describe('Whether to apply the scenario\'s default filters and sorting'),
+  name: z.string().optional().describe('Optional unique, human-friendly grid name that can be used instead of the grid ID'),
 }).describe('Parameters for loading a pre-built demo scenario');
 
+const ScreenshotGridSchema = z.object({
+  gridId: z.string().describe('ID or name of the grid to capture'),
+  viewport: z.object({
+    width: z.number().int().positive().describe('Viewport width in pixels'),
+    height: z.number().int().positive().describe('Viewport height in pixels'),
+  }).optional().describe('Optional viewport size to render the grid at'),
+  rowRange: z.object({
+    start: z.number().int().min(0).describe('Index of the first displayed row to show'),
+    end: z.number().int().min(0).optional().describe('Index of the last displayed row to show; the grid is resized to fit the range'),
+  }).optional().describe('Optional range of displayed rows to scroll to'),
+  autoSizeColumns: z.boolean().optional().default(false).describe('Auto-size all columns to their content before capturing'),
+}).describe('Parameters for capturing a grid screenshot');
+
+const SaveGridSchema = z.object({
+  gridId: z.string().describe('ID or name of the grid to save'),
+}).describe('Parameters for saving a grid snapshot');
+
+const RestoreGridSchema = z.object({
+  gridId: z.string().describe('ID or name of the saved grid to restore'),
+}).describe('Parameters for restoring a grid snapshot');
+
+const GridHistorySchema = z.object({
+  gridId: z.string().describe('ID or name of the grid'),
+}).describe('Parameters for undoing, redoing or listing grid changes');
+
+const TagGridVersionSchema = z.object({
+  gridId: z.string().describe('ID or name of the grid to checkpoint'),
+  name: z.string().min(1).describe('Version name, e.g. "before cleanup" (unique per grid; "current" is reserved)'),
+  description: z.string().optional().describe('Optional note about the version'),
+}).describe('Parameters for tagging a grid version');
+
+const DiffGridVersionsSchema = z.object({
+  gridId: z.string().describe('ID or name of the grid'),
+  from: z.string().describe('Name of the older version, or "current" for the live grid'),
+  to: z.string().optional().default('current').describe('Name of the newer version, or "current" for the live grid (default)'),
+  keyField: z.string().optional().describe('Field to match rows by (defaults to the grid\'s rowIdField)'),
+  limit: z.number().int().positive().optional().describe('Maximum number of rows listed per category (default 100)'),
+}).describe('Parameters for diffing two grid versions');
+
+const RenameGridSchema = z.object({
+  gridId: z.string().describe('ID or current name of the grid to rename'),
+  name: z.string().describe('New unique grid name: up to 64 letters, digits, spaces, dots, dashes or underscores'),
+}).describe('Parameters for renaming a grid');
+
+const CloneGridSchema = z.object({
+  gridId: z.string().describe('ID or name of the grid to clone'),
+  mode: z.enum(['full', 'displayed']).optional().default('full').describe(
+    'full: copy all rows with the current column state and filter; displayed: copy only the rows that pass the current filter, in display order, with the current column state'
+  ),
+  name: z.string().optional().describe('Optional unique, human-friendly name for the new grid'),
+}).describe('Parameters for cloning a grid');
+
+const SaveGridViewSchema = z.object({
+  gridId: z.string().describe('ID or name of the grid'),
+  name: z.string().min(1).describe('View name, unique per grid, e.g. "top customers"'),
+  description: z.string().optional().describe('Optional note about the view'),
+  overwrite: z.boolean().optional().default(false).describe('Replace an existing view with the same name'),
+}).describe('Parameters for saving a grid view');
+
+const GridViewSchema = z.object({
+  gridId: z.string().describe('ID or name of the grid'),
+  name: z.string().describe('Name of the saved view'),
+}).describe('Parameters for applying or deleting a saved grid view');
+
+const ListGridViewsSchema = z.object({
+  gridId: z.string().describe('ID or name of the grid'),
+}).describe('Parameters for listing saved grid views');
+
+const QueryGridSchema = z.object({
+  gridId: z.string().describe('ID or name of the grid to query'),
+  sql: z.string().min(1).describe(
+    'Query such as: SELECT region, amount WHERE amount BETWEEN 100 AND 500 AND region IN (\'North\', \'South\') ORDER BY amount DESC LIMIT 10. ' +
+    'Supports =, !=, <>, <, <=, >, >=, AND, OR, NOT, IN, BETWEEN, LIKE (% and _) and IS [NOT] NULL; text comparisons are case-insensitive. Without LIMIT, 100 rows are returned'
+  ),
+  apply: z.boolean().optional().default(true).describe('Also show the result in the grid by applying the equivalent filters, sort and visible columns, when they can be expressed as AG Grid filters'),
+}).describe('Parameters for querying a grid');
+
+const AggregateGridSchema = z.object({
+  gridId: z.string().describe('ID or name of the grid to aggregate'),
+  groupBy: z.array(z.string()).optional().default([]).describe('Fields to group by, e.g. ["region"]; leave empty for grand totals'),
+  aggregations: z.array(z.object({
+    fn: z.enum(AGGREGATE_FUNCTIONS).describe('Aggregate function'),
+    field: z.string().optional().describe('Field to aggregate; omit for count to count rows'),
+    as: z.string().optional().describe('Name of the result column (defaults to e.g. sum_revenue)'),
+  })).min(1).describe('Aggregations to compute per group'),
+  createGrid: z.boolean().optional().default(false).describe('Also create a new grid holding the result table'),
+  name: z.string().optional().describe('Optional unique name for the created grid'),
+}).describe('Parameters for aggregating a grid');
+
+const PivotGridSchema = z.object({
+  gridId: z.string().describe('ID or name of the grid to pivot'),
+  rowKeys: z.array(z.string()).min(1).describe('Fields whose values form the rows, e.g. ["region"]'),
+  pivotField: z.string().describe('Field whose distinct values become columns, e.g. "quarter"'),
+  valueField: z.string().optional().describe('Field to aggregate in each cell; omit for count to count rows'),
+  fn: z.enum(AGGREGATE_FUNCTIONS).optional().default('sum').describe('Aggregate function for each cell and the totals'),
+  name: z.string().optional().describe('Optional unique name for the pivot grid'),
+}).describe('Parameters for pivoting a grid');
+
+const AddComputedColumnSchema = z.object({
+  gridId: z.string().describe('ID or name of the grid'),
+  field: z.string().describe('Field of the computed column, e.g. "profitMargin"; an existing computed column is redefined'),
+  expression: z.string().min(1).describe(
+    'Expression computed for each row, e.g. revenue - cost, round(profit / revenue * 100, 1) or if(quantity > 10, "bulk", "single"). ' +
+    'Supports + - * / %, = != < <= > >=, and, or, not, "text" literals, `quoted field` names and the functions ' +
+    `${EXPRESSION_FUNCTIONS.join(', ')}. Dates are 'YYYY-MM-DD' strings`
+  ),
+  headerName: z.string().optional().describe('Optional column header'),
+}).describe('Parameters for adding a computed column');
+
+const FormattingRuleSchema = z.object({
+  condition: FilterConditionSchema.describe('Condition on one column, as in apply_grid_filter, e.g. {field: "profit", op: "lt", value: 0}'),
+  scope: z.enum(['cell', 'row']).optional().default('cell').describe('Format the condition\'s cell or the whole row'),
+  preset: z.enum(FORMATTING_PRESETS).optional().describe('Preset class: negative and positive color the text, warning, danger, success and highlight the background, muted greys out, bold'),
+  style: z.object({
+    color: z.string().optional().describe('Text color, e.g. #c62828 or red'),
+    backgroundColor: z.string().optional().describe('Background color'),
+    fontWeight: z.enum(['normal', 'bold']).optional(),
+    fontStyle: z.enum(['normal', 'italic']).optional(),
+    textDecoration: z.enum(['none', 'underline', 'line-through']).optional(),
+  }).optional().describe('Custom style, instead of a preset'),
+});
+
+const SetConditionalFormattingSchema = z.object({
+  gridId: z.string().describe('ID or name of the grid'),
+  rules: z.array(FormattingRuleSchema).describe('Rules replacing the current ones, applied in order; an empty list removes all formatting'),
+}).describe('Parameters for setting conditional formatting');
+
 // Response formatting helpers
 interface ToolResponse {
   success: boolean;
@@ -109,29 +284,41 @@ export function setupGridTools(server: McpServer, gridManager: GridManager, webS
   // Tool 1: Create Grid
   server.tool(
     'create_grid',
-    'Create a new AG Grid instance with column definitions and data. Returns a unique grid ID for future operations.',
+    'Create a new AG Grid instance with column definitions and data; without column definitions they are inferred from the data. Returns a unique grid ID for future operations; give the grid a name to refer to it by name instead.',
     {
       columnDefs: CreateGridSchema.shape.columnDefs,
       rowData: CreateGridSchema.shape.rowData,
       gridOptions: CreateGridSchema.shape.gridOptions,
+      rowIdField: CreateGridSchema.shape.rowIdField,
+      name: CreateGridSchema.shape.name,
     },
     async (params) => {
       try {
+        if (!params.columnDefs && params.rowData.length === 0) {
+          throw new GridManagerError(
+            'Column definitions are required when there are no rows to infer them from',
+            'INVALID_CONFIG'
+          );
+        }
+
         const config: GridConfig = {
-          columnDefs: params.columnDefs,
+          columnDefs: params.columnDefs ?? inferColumnDefs(params.rowData),
           rowData: params.rowData,
           gridOptions: params.gridOptions,
+          rowIdField: params.rowIdField,
         };
 
-        const gridId = await gridManager.createGrid(config);
+        const gridId = await gridManager.createGrid(config, { name: params.name });
         
         return formatSuccess(
           `Grid created successfully with ID: ${gridId}`,
           {
             gridId,
+            name: params.name,
             columns: config.columnDefs.length,
             rows: config.rowData.length,
             columnFields: config.columnDefs.map(col => col.field),
+            ...(params.columnDefs ? {} : { inferredColumnDefs: config.columnDefs }),
           }
         );
       } catch (error) {
@@ -175,18 +362,39 @@ export function setupGridTools(server: McpServer, gridManager: GridManager, webS
   // Tool 3: Apply Grid Filter
   server.tool(
     'apply_grid_filter',
-    'Apply filters to an AG Grid using AG Grid\'s filter model format. Use this to filter data by specific criteria.',
+    'Apply filters to an AG Grid. Prefer the typed filter ({field, op, value} conditions in and/or groups), which is checked against the columns and compiled into AG Grid\'s filter model; a raw filterModel is also accepted.',
     {
       gridId: ApplyFilterSchema.shape.gridId,
+      filter: ApplyFilterSchema.shape.filter,
       filterModel: ApplyFilterSchema.shape.filterModel,
     },
     async (params) => {
       try {
+        if ((params.filter === undefined) === (params.filterModel === undefined)) {
+          throw new GridManagerError('Provide either filter or filterModel', 'INVALID_FILTER', params.gridId);
+        }
+
+        const { config } = gridManager.getGridInfo(params.gridId);
+        let filterModel: Record<string, any>;
+        if (params.filter) {
+          filterModel = compileFilter(params.filter, config.columnDefs, config.rowData);
+        } else {
+          filterModel = params.filterModel!;
+          const unknownFields = findUnknownFilterFields(filterModel, config.columnDefs);
+          if (unknownFields.length > 0) {
+            throw new GridManagerError(
+              `Invalid filter model: unknown column(s) ${unknownFields.join(', ')}`,
+              'INVALID_FILTER',
+              params.gridId
+            );
+          }
+        }
+
         // Apply filter using the executeGridMethod
         await gridManager.executeGridMethod(
           params.gridId,
           'setFilterModel',
-          [params.filterModel]
+          [filterModel]
         );
         
         // Get updated stats after filtering
@@ -196,7 +404,7 @@ export function setupGridTools(server: McpServer, gridManager: GridManager, webS
           `Filters applied successfully to grid: ${params.gridId}`,
           {
             gridId: params.gridId,
-            filterModel: params.filterModel,
+            filterModel,
             displayedRows: gridState.displayedRowCount,
             totalRows: gridState.rowCount,
           }
@@ -213,30 +421,52 @@ export function setupGridTools(server: McpServer, gridManager: GridManager, webS
   // Tool 4: Export Grid
   server.tool(
     'export_grid',
-    'Export AG Grid data to CSV or Excel format. Returns the exported data as a string.',
+    'Export AG Grid data as CSV, Excel (.xlsx), JSON, NDJSON, Markdown, HTML or a paginated PDF report. Exports respect the current filter, sort and column order. The file is written to the server\'s export directory and its path and download URL are returned instead of the raw data.',
     {
       gridId: ExportGridSchema.shape.gridId,
       format: ExportGridSchema.shape.format,
       filename: ExportGridSchema.shape.filename,
+      onlySelected: ExportGridSchema.shape.onlySelected,
+      allRows: ExportGridSchema.shape.allRows,
+      columnKeys: ExportGridSchema.shape.columnKeys,
+      headerMode: ExportGridSchema.shape.headerMode,
+      limit: ExportGridSchema.shape.limit,
+      title: ExportGridSchema.shape.title,
+      subtitle: ExportGridSchema.shape.subtitle,
     },
     async (params) => {
       try {
         const exportResult = await gridManager.exportGridData(
           params.gridId,
-          params.format as ExportFormat
+          params.format as ExportFormat,
+          {
+            onlySelected: params.onlySelected,
+            allRows: params.allRows,
+            columnKeys: params.columnKeys,
+            headerMode: params.headerMode,
+            limit: params.limit,
+            title: params.title,
+            subtitle: params.subtitle,
+          }
+        );
+
+        const storedExport = await gridManager.saveExport(
+          params.gridId,
+          exportResult,
+          params.filename
         );
         
         return formatSuccess(
           `Grid exported successfully as ${params.format.toUpperCase()}`,
           {
-            gridId: params.gridId,
+            gridId: storedExport.gridId,
             format: exportResult.format,
-            filename: params.filename || exportResult.filename,
-            dataLength: exportResult.data.length,
-            exportedAt: new Date().toISOString(),
-            // Note: In a real implementation, you might want to save the file
-            // or return a download URL instead of raw data
-            data: exportResult.data,
+            filename: storedExport.filename,
+            mimeType: exportResult.mimeType,
+            size: storedExport.size,
+            path: storedExport.path,
+            url: webServer ? webServer.getExportUrl(storedExport.gridId, storedExport.filename) : undefined,
+            exportedAt: storedExport.createdAt,
           }
         );
       } catch (error) {
@@ -257,12 +487,14 @@ export function setupGridTools(server: McpServer, gridManager: GridManager, webS
     },
     async (params) => {
       try {
+        gridManager.touchGrid(params.gridId);
         const gridState = await gridManager.getGridState(params.gridId);
         const gridInfo = gridManager.getGridInfo(params.gridId);
         
         // Enhanced statistics
         const stats = {
-          gridId: params.gridId,
+          gridId: gridInfo.id,
+          name: gridInfo.name,
           createdAt: gridInfo.createdAt,
           lastUpdated: gridInfo.lastUpdated,
           totalRows: gridState.rowCount,
@@ -304,7 +536,7 @@ export function setupGridTools(server: McpServer, gridManager: GridManager, webS
   // Tool 6: Execute Grid Method
   server.tool(
     'execute_grid_method',
-    'Execute any AG Grid API method on a grid. Useful for advanced operations like selectAll, clearSelection, sizeColumnsToFit, etc.',
+    'Execute an allowed AG Grid API method on a grid, e.g. selectAll, deselectAll, sizeColumnsToFit, setColumnsVisible or getSelectedRows. Parameters are validated; row data cannot be changed this way (use update_grid_data or apply_grid_transaction).',
     {
       gridId: ExecuteGridMethodSchema.shape.gridId,
       method: ExecuteGridMethodSchema.shape.method,
@@ -312,6 +544,7 @@ export function setupGridTools(server: McpServer, gridManager: GridManager, webS
     },
     async (params) => {
       try {
+        gridManager.touchGrid(params.gridId);
         const result = await gridManager.executeGridMethod(
           params.gridId,
           params.method,
@@ -344,6 +577,7 @@ export function setupGridTools(server: McpServer, gridManager: GridManager, webS
     {
       scenarioId: LoadDemoScenarioSchema.shape.scenarioId,
       applyFilters: LoadDemoScenarioSchema.shape.applyFilters,
+      name: LoadDemoScenarioSchema.shape.name,
     },
     async (params) => {
       try {
@@ -358,7 +592,7 @@ export function setupGridTools(server: McpServer, gridManager: GridManager, webS
         }
 
         // Create the grid with scenario configuration
-        const gridId = await gridManager.createGrid(scenario.gridConfig);
+        const gridId = await gridManager.createGrid(scenario.gridConfig, { name: params.name });
         
         // Apply default filters and sorting if requested
         if (params.applyFilters) {
@@ -391,6 +625,7 @@ export function setupGridTools(server: McpServer, gridManager: GridManager, webS
           `Demo scenario '${scenario.name}' loaded successfully`,
           {
             gridId,
+            name: params.name,
             scenario: {
               id: scenario.id,
               name: scenario.name,
@@ -429,20 +664,22 @@ export function setupGridTools(server: McpServer, gridManager: GridManager, webS
       'get_grid_url',
       'Get the web viewer URL for a specific grid. Use this to view grids in your browser in real-time.',
       {
-        gridId: z.string().describe('Unique identifier of the grid to get URL for'),
+        gridId: z.string().describe('ID or name of the grid to get URL for'),
       },
       async (params) => {
         try {
           // Verify grid exists
-          gridManager.getGridInfo(params.gridId);
+          gridManager.touchGrid(params.gridId);
+          const gridInfo = gridManager.getGridInfo(params.gridId);
           
-          const gridUrl = webServer.getGridUrl(params.gridId);
+          const gridUrl = webServer.getGridUrl(gridInfo.id);
           const dashboardUrl = webServer.getUrl();
           
           return formatSuccess(
             `Grid viewer URL generated successfully`,
             {
-              gridId: params.gridId,
+              gridId: gridInfo.id,
+              name: gridInfo.name,
               gridUrl: gridUrl,
               dashboardUrl: dashboardUrl,
               instructions: [
@@ -462,7 +699,603 @@ export function setupGridTools(server: McpServer, gridManager: GridManager, webS
     );
   }
 
-  const toolCount = webServer ? 8 : 7;
+  // Tool 9: Screenshot Grid
+  server.tool(
+    'screenshot_grid',
+    'Render a grid to a PNG image cropped to the grid. Use this to show what a grid looks like inline without opening the web viewer.',
+    {
+      gridId: ScreenshotGridSchema.shape.gridId,
+      viewport: ScreenshotGridSchema.shape.viewport,
+      rowRange: ScreenshotGridSchema.shape.rowRange,
+      autoSizeColumns: ScreenshotGridSchema.shape.autoSizeColumns,
+    },
+    async (params) => {
+      try {
+        const image = await gridManager.screenshotGrid(params.gridId, {
+          viewport: params.viewport,
+          rowRange: params.rowRange,
+          autoSizeColumns: params.autoSizeColumns,
+        });
+
+        return {
+          content: [
+            {
+              type: "image" as const,
+              data: image,
+              mimeType: 'image/png',
+            },
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: true,
+                message: `Screenshot captured for grid: ${params.gridId}`,
+                data: {
+                  gridId: params.gridId,
+                  viewport: params.viewport,
+                  rowRange: params.rowRange,
+                  capturedAt: new Date().toISOString(),
+                },
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return formatError(
+          `Failed to capture screenshot of grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  // Tool 10: Save Grid
+  server.tool(
+    'save_grid',
+    'Save a snapshot of a grid (configuration, data, column state, filters, sorting and metadata) to disk so it can be restored later.',
+    {
+      gridId: SaveGridSchema.shape.gridId,
+    },
+    async (params) => {
+      try {
+        const saved = await gridManager.saveGrid(params.gridId);
+
+        return formatSuccess(
+          `Grid saved successfully: ${params.gridId}`,
+          saved
+        );
+      } catch (error) {
+        return formatError(
+          `Failed to save grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  // Tool 11: Restore Grid
+  server.tool(
+    'restore_grid',
+    'Restore a grid from its saved snapshot with the same grid ID. Replaces the live grid if it still exists.',
+    {
+      gridId: RestoreGridSchema.shape.gridId,
+    },
+    async (params) => {
+      try {
+        const gridId = await gridManager.restoreGrid(params.gridId);
+        const gridState = await gridManager.getGridState(gridId);
+
+        return formatSuccess(
+          `Grid restored successfully: ${gridId}`,
+          {
+            gridId,
+            totalRows: gridState.rowCount,
+            displayedRows: gridState.displayedRowCount,
+            hasFilters: Object.keys(gridState.filterState).length > 0,
+            hasSorting: gridState.sortState.length > 0,
+          }
+        );
+      } catch (error) {
+        return formatError(
+          `Failed to restore grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  // Tool 12: Apply Grid Transaction
+  server.tool(
+    'apply_grid_transaction',
+    'Add, update and remove individual rows without replacing all grid data. Keeps selection and scroll position. Updates and removals are matched by the rowIdField given to create_grid.',
+    {
+      gridId: ApplyTransactionSchema.shape.gridId,
+      add: ApplyTransactionSchema.shape.add,
+      addIndex: ApplyTransactionSchema.shape.addIndex,
+      update: ApplyTransactionSchema.shape.update,
+      remove: ApplyTransactionSchema.shape.remove,
+    },
+    async (params) => {
+      try {
+        const result = await gridManager.applyTransaction(params.gridId, {
+          add: params.add,
+          addIndex: params.addIndex,
+          update: params.update,
+          remove: params.remove,
+        });
+
+        return formatSuccess(
+          `Transaction applied successfully to grid: ${params.gridId}`,
+          {
+            gridId: params.gridId,
+            ...result,
+            updatedAt: new Date().toISOString(),
+          }
+        );
+      } catch (error) {
+        return formatError(
+          `Failed to apply transaction to grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  // Tool 13: Undo Grid Change
+  server.tool(
+    'undo_grid_change',
+    'Undo the most recent change to a grid: a data replacement, row transaction, filter, column state or column definition change.',
+    {
+      gridId: GridHistorySchema.shape.gridId,
+    },
+    async (params) => {
+      try {
+        const result = await gridManager.undoGridChange(params.gridId);
+
+        return formatSuccess(
+          `Undid "${result.entry.description}" on grid: ${params.gridId}`,
+          result
+        );
+      } catch (error) {
+        return formatError(
+          `Failed to undo change on grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  // Tool 14: Redo Grid Change
+  server.tool(
+    'redo_grid_change',
+    'Redo the most recently undone change to a grid. Any new change after an undo clears the redo history.',
+    {
+      gridId: GridHistorySchema.shape.gridId,
+    },
+    async (params) => {
+      try {
+        const result = await gridManager.redoGridChange(params.gridId);
+
+        return formatSuccess(
+          `Redid "${result.entry.description}" on grid: ${params.gridId}`,
+          result
+        );
+      } catch (error) {
+        return formatError(
+          `Failed to redo change on grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  // Tool 15: Get Grid History
+  server.tool(
+    'get_grid_history',
+    'List the changes of a grid that can be undone and redone, most recent first.',
+    {
+      gridId: GridHistorySchema.shape.gridId,
+    },
+    async (params) => {
+      try {
+        const history = gridManager.getGridHistory(params.gridId);
+
+        return formatSuccess(
+          `History retrieved for grid: ${params.gridId}`,
+          { gridId: params.gridId, ...history }
+        );
+      } catch (error) {
+        return formatError(
+          `Failed to get history of grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  // Tool 16: Tag Grid Version
+  server.tool(
+    'tag_grid_version',
+    'Checkpoint the current data and column definitions of a grid under a name, e.g. "before cleanup", so it can be compared with later states using diff_grid_versions.',
+    {
+      gridId: TagGridVersionSchema.shape.gridId,
+      name: TagGridVersionSchema.shape.name,
+      description: TagGridVersionSchema.shape.description,
+    },
+    async (params) => {
+      try {
+        // The diff resource is addressed by ID, so resolve a grid name first
+        const gridId = gridManager.resolveGridId(params.gridId);
+        const version = await gridManager.tagGridVersion(gridId, params.name, params.description);
+
+        return formatSuccess(
+          `Version '${version.name}' tagged for grid: ${params.gridId}`,
+          {
+            gridId,
+            version,
+            versions: gridManager.listGridVersions(gridId).map(info => info.name),
+            diffUri: buildDiffResourceUri(gridId, version.name, 'current'),
+          }
+        );
+      } catch (error) {
+        return formatError(
+          `Failed to tag version of grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  // Tool 17: Diff Grid Versions
+  server.tool(
+    'diff_grid_versions',
+    'Compare two tagged versions of a grid (or a version with the live grid, "current"). Rows are matched by a key field; reports added, removed and changed rows with before and after values per field, and column definition changes.',
+    {
+      gridId: DiffGridVersionsSchema.shape.gridId,
+      from: DiffGridVersionsSchema.shape.from,
+      to: DiffGridVersionsSchema.shape.to,
+      keyField: DiffGridVersionsSchema.shape.keyField,
+      limit: DiffGridVersionsSchema.shape.limit,
+    },
+    async (params) => {
+      try {
+        gridManager.touchGrid(params.gridId);
+        const diff = gridManager.diffGridVersions(params.gridId, params.from, params.to || 'current', {
+          keyField: params.keyField,
+          limit: params.limit,
+        });
+
+        return formatSuccess(
+          `Diff from '${diff.from}' to '${diff.to}' for grid: ${params.gridId}`,
+          { gridId: params.gridId, ...diff }
+        );
+      } catch (error) {
+        return formatError(
+          `Failed to diff versions of grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  // Tool 18: Rename Grid
+  server.tool(
+    'rename_grid',
+    'Give a grid a new unique, human-friendly name. The name can be used instead of the grid ID in every tool and resource.',
+    {
+      gridId: RenameGridSchema.shape.gridId,
+      name: RenameGridSchema.shape.name,
+    },
+    async (params) => {
+      try {
+        const renamed = await gridManager.renameGrid(params.gridId, params.name);
+
+        return formatSuccess(
+          `Grid ${renamed.gridId} renamed to '${renamed.name}'`,
+          renamed
+        );
+      } catch (error) {
+        return formatError(
+          `Failed to rename grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  // Tool 19: Clone Grid
+  server.tool(
+    'clone_grid',
+    'Copy a grid into a new grid, either in full or only the rows currently displayed (filtered and sorted). Use this to branch an analysis while keeping the original grid.',
+    {
+      gridId: CloneGridSchema.shape.gridId,
+      mode: CloneGridSchema.shape.mode,
+      name: CloneGridSchema.shape.name,
+    },
+    async (params) => {
+      try {
+        const clone = await gridManager.cloneGrid(params.gridId, {
+          mode: params.mode,
+          name: params.name,
+        });
+
+        return formatSuccess(
+          `Grid ${clone.sourceGridId} cloned into ${clone.gridId} (${clone.rowCount} rows)`,
+          clone
+        );
+      } catch (error) {
+        return formatError(
+          `Failed to clone grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  // Tool 20: Save Grid View
+  server.tool(
+    'save_grid_view',
+    'Save the current column state (order, widths, visibility, pinning, sorting) and filters of a grid as a named view that can be applied again later.',
+    {
+      gridId: SaveGridViewSchema.shape.gridId,
+      name: SaveGridViewSchema.shape.name,
+      description: SaveGridViewSchema.shape.description,
+      overwrite: SaveGridViewSchema.shape.overwrite,
+    },
+    async (params) => {
+      try {
+        const view = await gridManager.saveGridView(params.gridId, params.name, {
+          description: params.description,
+          overwrite: params.overwrite,
+        });
+
+        return formatSuccess(
+          `View '${view.name}' saved for grid: ${params.gridId}`,
+          { gridId: params.gridId, view }
+        );
+      } catch (error) {
+        return formatError(
+          `Failed to save view of grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  // Tool 21: Apply Grid View
+  server.tool(
+    'apply_grid_view',
+    'Restore the column state, sorting and filters saved in a named view. Can be undone with undo_grid_change.',
+    {
+      gridId: GridViewSchema.shape.gridId,
+      name: GridViewSchema.shape.name,
+    },
+    async (params) => {
+      try {
+        const applied = await gridManager.applyGridView(params.gridId, params.name);
+
+        return formatSuccess(
+          `View '${applied.view.name}' applied to grid: ${params.gridId}`,
+          applied
+        );
+      } catch (error) {
+        return formatError(
+          `Failed to apply view to grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  // Tool 22: List Grid Views
+  server.tool(
+    'list_grid_views',
+    'List the saved views of a grid with their sorting, filtered columns and hidden columns.',
+    {
+      gridId: ListGridViewsSchema.shape.gridId,
+    },
+    async (params) => {
+      try {
+        gridManager.touchGrid(params.gridId);
+        const views = gridManager.listGridViews(params.gridId);
+
+        return formatSuccess(
+          `Grid ${params.gridId} has ${views.length} saved views`,
+          { gridId: params.gridId, views }
+        );
+      } catch (error) {
+        return formatError(
+          `Failed to list views of grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  // Tool 23: Delete Grid View
+  server.tool(
+    'delete_grid_view',
+    'Delete a saved view of a grid. The grid itself is not changed.',
+    {
+      gridId: GridViewSchema.shape.gridId,
+      name: GridViewSchema.shape.name,
+    },
+    async (params) => {
+      try {
+        await gridManager.deleteGridView(params.gridId, params.name);
+
+        return formatSuccess(
+          `View '${params.name}' deleted from grid: ${params.gridId}`,
+          {
+            gridId: params.gridId,
+            views: gridManager.listGridViews(params.gridId).map(info => info.name),
+          }
+        );
+      } catch (error) {
+        return formatError(
+          `Failed to delete view of grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  // Tool 24: Query Grid
+  server.tool(
+    'query_grid',
+    'Query a grid with a restricted SQL dialect (SELECT columns WHERE ... ORDER BY ... LIMIT n) instead of writing AG Grid filter models. Columns are checked against the grid. Returns the matching rows, and applies the equivalent filters, sort and visible columns to the grid where AG Grid filters can express the condition.',
+    {
+      gridId: QueryGridSchema.shape.gridId,
+      sql: QueryGridSchema.shape.sql,
+      apply: QueryGridSchema.shape.apply,
+    },
+    async (params) => {
+      try {
+        const result = await gridManager.queryGrid(params.gridId, params.sql, { apply: params.apply });
+
+        return formatSuccess(
+          `Query matched ${result.matchedRows} rows in grid: ${params.gridId}` +
+            (result.truncated ? ` (returning ${result.returnedRows})` : ''),
+          result
+        );
+      } catch (error) {
+        return formatError(
+          `Failed to query grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  // Tool 25: Aggregate Grid
+  server.tool(
+    'aggregate_grid',
+    'Group the rows that pass the current filter by one or more fields and compute sum, avg, min, max, count, countDistinct or median per group, e.g. revenue by region. Returns the result table and can create it as a new grid.',
+    {
+      gridId: AggregateGridSchema.shape.gridId,
+      groupBy: AggregateGridSchema.shape.groupBy,
+      aggregations: AggregateGridSchema.shape.aggregations,
+      createGrid: AggregateGridSchema.shape.createGrid,
+      name: AggregateGridSchema.shape.name,
+    },
+    async (params) => {
+      try {
+        const result = await gridManager.aggregateGrid(params.gridId, {
+          groupBy: params.groupBy,
+          aggregations: params.aggregations,
+          createGrid: params.createGrid,
+          name: params.name,
+        });
+
+        return formatSuccess(
+          `Aggregated ${result.sourceRowCount} rows into ${result.rows.length} groups` +
+            (result.createdGridId ? `, created grid ${result.createdGridId}` : ''),
+          result
+        );
+      } catch (error) {
+        return formatError(
+          `Failed to aggregate grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  // Tool 26: Pivot Grid
+  server.tool(
+    'pivot_grid',
+    'Pivot the rows that pass the current filter into a new grid, e.g. revenue by region (rows) and quarter (columns). Each pivot column value becomes a column under a column group, with a row total column and a grand total row. The new grid stays linked to its source grid.',
+    {
+      gridId: PivotGridSchema.shape.gridId,
+      rowKeys: PivotGridSchema.shape.rowKeys,
+      pivotField: PivotGridSchema.shape.pivotField,
+      valueField: PivotGridSchema.shape.valueField,
+      fn: PivotGridSchema.shape.fn,
+      name: PivotGridSchema.shape.name,
+    },
+    async (params) => {
+      try {
+        const pivot = await gridManager.pivotGrid(params.gridId, {
+          rowKeys: params.rowKeys,
+          pivotField: params.pivotField,
+          valueField: params.valueField,
+          fn: params.fn,
+          name: params.name,
+        });
+
+        return formatSuccess(
+          `Pivoted ${pivot.sourceRowCount} rows of grid ${pivot.sourceGridId} into grid ${pivot.gridId} ` +
+            `(${pivot.rows.length} rows, ${pivot.pivotValues.length} pivot columns)`,
+          pivot
+        );
+      } catch (error) {
+        return formatError(
+          `Failed to pivot grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  // Tool 27: Add Computed Column
+  server.tool(
+    'add_computed_column',
+    'Add a column computed from each row with a safe expression, such as a profit margin or a bulk/single label. The column is recomputed whenever the grid data changes, and redefined if it already exists.',
+    {
+      gridId: AddComputedColumnSchema.shape.gridId,
+      field: AddComputedColumnSchema.shape.field,
+      expression: AddComputedColumnSchema.shape.expression,
+      headerName: AddComputedColumnSchema.shape.headerName,
+    },
+    async (params) => {
+      try {
+        const result = await gridManager.addComputedColumn(params.gridId, {
+          field: params.field,
+          expression: params.expression,
+          headerName: params.headerName,
+        });
+
+        return formatSuccess(
+          `Computed column ${result.field} ${result.replaced ? 'redefined' : 'added'} for ${result.rowCount} rows` +
+            (result.errorCount > 0 ? ` (${result.errorCount} rows had values of the wrong type and are empty)` : ''),
+          result
+        );
+      } catch (error) {
+        return formatError(
+          `Failed to add computed column to grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  // Tool 28: Set Conditional Formatting
+  server.tool(
+    'set_conditional_formatting',
+    'Format cells or rows that match a condition, e.g. negative profits in red or "Overdue" statuses highlighted, in the web viewer and in screenshots. Replaces the grid\'s current formatting rules.',
+    {
+      gridId: SetConditionalFormattingSchema.shape.gridId,
+      rules: SetConditionalFormattingSchema.shape.rules,
+    },
+    async (params) => {
+      try {
+        const result = await gridManager.setConditionalFormatting(params.gridId, params.rules);
+
+        return formatSuccess(
+          result.ruleCount > 0
+            ? `Set ${result.ruleCount} formatting rules matching ${result.matchedRows.join(', ')} rows`
+            : 'Removed all formatting rules',
+          result
+        );
+      } catch (error) {
+        return formatError(
+          `Failed to set conditional formatting on grid: ${params.gridId}`,
+          error as Error
+        );
+      }
+    }
+  );
+
+  const toolCount = webServer ? 28 : 27;
   console.error(`✅ AG Grid MCP tools registered successfully (${toolCount} tools total)`);
 }
 
@@ -478,6 +1311,7 @@ export function getActiveGridsInfo(gridManager: GridManager) {
       const info = gridManager.getGridInfo(gridId);
       return {
         gridId,
+        name: info.name,
         createdAt: info.createdAt,
         lastUpdated: info.lastUpdated,
         columnCount: info.config.columnDefs.length,
@@ -535,28 +1369,6 @@ export const FILTER_EXAMPLES = {
   }
 };
 
-/**
- * Common AG Grid API methods for reference
- */
-export const COMMON_GRID_METHODS = [
-  'selectAll',
-  'deselectAll',
-  'clearSelection',
-  'sizeColumnsToFit',
-  'autoSizeAllColumns',
-  'resetColumnState',
-  'clearFilter',
-  'clearSorting',
-  'refreshCells',
-  'redrawRows',
-  'getDisplayedRowCount',
-  'getSelectedRows',
-  'exportDataAsCsv',
-  'setFilterModel',
-  'setSortModel',
-  'setColumnState'
-];
-
 /**
  * Get available demo scenarios for reference
  */
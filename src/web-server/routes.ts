@@ -54,7 +54,7 @@ export function setupRoutes(
    */
   router.get('/api/grids/:gridId', async (req: Request, res: Response) => {
     try {
-      const { gridId } = req.params;
+      const gridId = gridManager.resolveGridId(req.params.gridId);
       const gridInfo = gridManager.getGridInfo(gridId);
       const gridState = await gridManager.getGridState(gridId);
       const webState = wsManager.getGridState(gridId);
@@ -81,7 +81,7 @@ export function setupRoutes(
    */
   router.get('/api/grids/:gridId/data', async (req: Request, res: Response) => {
     try {
-      const { gridId } = req.params;
+      const gridId = gridManager.resolveGridId(req.params.gridId);
       const gridInfo = gridManager.getGridInfo(gridId);
       const webState = wsManager.getGridState(gridId);
 
@@ -97,7 +97,9 @@ export function setupRoutes(
         data: {
           columnDefs: gridInfo.config.columnDefs,
           rowData: webState.data,
-          gridOptions: gridInfo.config.gridOptions || {}
+          gridOptions: gridInfo.config.gridOptions || {},
+          rowIdField: gridInfo.config.rowIdField,
+          formattingRules: gridInfo.config.formattingRules || []
         }
       });
     } catch (error) {
@@ -108,6 +110,31 @@ export function setupRoutes(
     }
   });
 
+  /**
+   * Download a stored grid export
+   */
+  router.get('/api/grids/:gridId/exports/:file', async (req: Request, res: Response) => {
+    try {
+      const { file } = req.params;
+      const gridId = gridManager.resolveGridId(req.params.gridId);
+      const exportPath = await gridManager.getExportStore().resolve(gridId, file);
+
+      if (!exportPath) {
+        return res.status(404).json({
+          success: false,
+          error: 'Export not found'
+        });
+      }
+
+      return res.download(exportPath, file);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
   /**
    * Get server status
    */
@@ -144,7 +171,7 @@ export function setupRoutes(
    */
   app.get('/grid/:gridId/data', async (req: Request, res: Response) => {
     try {
-      const { gridId } = req.params;
+      const gridId = gridManager.resolveGridId(req.params.gridId);
       const gridInfo = gridManager.getGridInfo(gridId);
       const webState = wsManager.getGridState(gridId);
 
@@ -156,9 +183,13 @@ export function setupRoutes(
 
       return res.json({
         gridId,
+        name: gridInfo.name,
         columnDefs: gridInfo.config.columnDefs,
         rowData: webState.data,
         gridOptions: gridInfo.config.gridOptions || {},
+        rowIdField: gridInfo.config.rowIdField,
+        formattingRules: gridInfo.config.formattingRules || [],
+        views: gridManager.getGridViews(gridId),
         createdAt: webState.createdAt,
         lastUpdated: webState.lastUpdated
       });
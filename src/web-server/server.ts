@@ -155,6 +155,13 @@ export class WebServer {
     return `${this.getUrl()}/grid/${gridId}`;
   }
 
+  /**
+   * Get download URL for a stored grid export
+   */
+  getExportUrl(gridId: string, filename: string): string {
+    return `${this.getUrl()}/api/grids/${encodeURIComponent(gridId)}/exports/${encodeURIComponent(filename)}`;
+  }
+
   /**
    * Check if server is running
    */
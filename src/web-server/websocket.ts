@@ -5,9 +5,10 @@
 import { Server as SocketIOServer } from 'socket.io';
 import { Server as HttpServer } from 'http';
 import type { GridInstance } from '../grid-manager.js';
+import type { GridView } from '../grid-views.js';
 
 export interface GridEvent {
-  type: 'grid_created' | 'grid_updated' | 'grid_filtered' | 'grid_sorted' | 'grid_exported' | 'grid_destroyed';
+  type: 'grid_created' | 'grid_updated' | 'grid_filtered' | 'grid_sorted' | 'grid_exported' | 'grid_destroyed' | 'grid_recovered' | 'grid_columns_changed' | 'grid_history' | 'grid_renamed' | 'grid_views_changed' | 'grid_formatting_changed';
   gridId: string;
   timestamp: string;
   data?: any;
@@ -15,6 +16,7 @@ export interface GridEvent {
 
 export interface GridState {
   id: string;
+  name?: string;
   config: any;
   data: any[];
   filters?: any;
@@ -120,9 +122,10 @@ export class WebSocketManager {
   /**
    * Notify clients of grid creation
    */
-  onGridCreated(gridId: string, config: any, data: any[]): void {
+  onGridCreated(gridId: string, config: any, data: any[], name?: string): void {
     const gridState: GridState = {
       id: gridId,
+      name,
       config,
       data,
       createdAt: new Date().toISOString(),
@@ -135,12 +138,26 @@ export class WebSocketManager {
       type: 'grid_created',
       gridId,
       timestamp: new Date().toISOString(),
-      data: { config, rowCount: data.length }
+      data: { config, rowCount: data.length, name }
     });
 
     this.io.emit('grid_state_updated', gridState);
   }
 
+  /**
+   * Notify clients that a grid was renamed
+   */
+  onGridRenamed(gridId: string, name: string, previousName?: string): void {
+    this.updateGridState(gridId, { name });
+
+    this.emitGridEvent({
+      type: 'grid_renamed',
+      gridId,
+      timestamp: new Date().toISOString(),
+      data: { name, previousName }
+    });
+  }
+
   /**
    * Notify clients of data updates
    */
@@ -155,6 +172,54 @@ export class WebSocketManager {
     });
   }
 
+  /**
+   * Notify clients of row-level transactions
+   */
+  onGridTransaction(
+    gridId: string,
+    newData: any[],
+    summary: { added: number; updated: number; removed: number }
+  ): void {
+    this.updateGridState(gridId, { data: newData });
+
+    this.emitGridEvent({
+      type: 'grid_updated',
+      gridId,
+      timestamp: new Date().toISOString(),
+      data: { rowCount: newData.length, transaction: summary }
+    });
+  }
+
+  /**
+   * Notify clients of column definition changes
+   */
+  onGridColumnsChanged(gridId: string, columnDefs: any[]): void {
+    const existingState = this.gridStates.get(gridId);
+    this.updateGridState(gridId, { config: { ...existingState?.config, columnDefs } });
+
+    this.emitGridEvent({
+      type: 'grid_columns_changed',
+      gridId,
+      timestamp: new Date().toISOString(),
+      data: { columnDefs, columnCount: columnDefs.length }
+    });
+  }
+
+  /**
+   * Notify clients of conditional formatting changes
+   */
+  onGridFormattingChanged(gridId: string, rules: any[]): void {
+    const existingState = this.gridStates.get(gridId);
+    this.updateGridState(gridId, { config: { ...existingState?.config, formattingRules: rules } });
+
+    this.emitGridEvent({
+      type: 'grid_formatting_changed',
+      gridId,
+      timestamp: new Date().toISOString(),
+      data: { rules, ruleCount: rules.length }
+    });
+  }
+
   /**
    * Notify clients of filter changes
    */
@@ -195,6 +260,42 @@ export class WebSocketManager {
     });
   }
 
+  /**
+   * Notify clients that a grid was rebuilt after a browser or page crash
+   */
+  onGridRecovered(gridId: string, reason: string): void {
+    this.emitGridEvent({
+      type: 'grid_recovered',
+      gridId,
+      timestamp: new Date().toISOString(),
+      data: { reason }
+    });
+  }
+
+  /**
+   * Notify clients that a change was undone or redone
+   */
+  onGridHistoryChanged(gridId: string, action: 'undo' | 'redo', description: string): void {
+    this.emitGridEvent({
+      type: 'grid_history',
+      gridId,
+      timestamp: new Date().toISOString(),
+      data: { action, description }
+    });
+  }
+
+  /**
+   * Notify clients that the saved views of a grid changed
+   */
+  onGridViewsChanged(gridId: string, views: GridView[]): void {
+    this.emitGridEvent({
+      type: 'grid_views_changed',
+      gridId,
+      timestamp: new Date().toISOString(),
+      data: { views }
+    });
+  }
+
   /**
    * Close WebSocket server
    */